@@ -0,0 +1,69 @@
+// Caches the app shell so the scanner opens in car parks without signal.
+// Pages are network-first so a new deploy shows up on the next online load;
+// hashed build assets never change, so they are served from the cache first.
+// OCR requests are server action POSTs and are never cached; captures taken
+// offline are queued in IndexedDB by the app instead. The on-device OCR files
+// under /ocr are precached and served cache-first, except the WASM core: the
+// browser picks one of three builds, so only the one it loads is cached.
+
+const CACHE = "parkconscious-shell-v2";
+const SHELL = ["/", "/manifest.webmanifest", "/icon.svg", "/ocr/worker.min.js", "/ocr/eng.traineddata.gz"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, fallbackUrl) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Firebase, fonts and other origins handle their own caching.
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/ocr/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/"));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,23 @@
+// Copies the Tesseract worker, WASM cores and English model into public/ocr,
+// so on-device OCR loads from the app's own origin and the service worker can
+// cache it for use offline. Runs before `dev` and `build`.
+import { copyFileSync, mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+
+const require = createRequire(import.meta.url);
+const packageDir = (name) => dirname(require.resolve(`${name}/package.json`));
+
+const OUT_DIR = "public/ocr";
+// tesseract.js picks one of these by the browser's WASM support; only the
+// LSTM engine is used, so the legacy cores are left out.
+const CORES = ["tesseract-core-lstm.wasm.js", "tesseract-core-simd-lstm.wasm.js", "tesseract-core-relaxedsimd-lstm.wasm.js"];
+
+const files = [
+  [join(packageDir("tesseract.js"), "dist/worker.min.js"), "worker.min.js"],
+  ...CORES.map((core) => [join(packageDir("tesseract.js-core"), core), core]),
+  [join(packageDir("@tesseract.js-data/eng"), "4.0.0_best_int/eng.traineddata.gz"), "eng.traineddata.gz"],
+];
+
+mkdirSync(OUT_DIR, { recursive: true });
+for (const [from, to] of files) copyFileSync(from, join(OUT_DIR, to));
@@ -8,8 +8,47 @@ const InitiateScanWithPromptInputSchema = z.object({
 });
 export type InitiateScanWithPromptInput = z.infer<typeof InitiateScanWithPromptInputSchema>;
 
-const InitiateScanWithPromptOutputSchema = z.object({
+const BoundingBoxSchema = z.object({
+  x: z.number().describe('Left edge as a fraction of image width (0-1).'),
+  y: z.number().describe('Top edge as a fraction of image height (0-1).'),
+  width: z.number().describe('Width as a fraction of image width (0-1).'),
+  height: z.number().describe('Height as a fraction of image height (0-1).'),
+});
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+
+const PlateCharacterSchema = z.object({
+  char: z.string().describe('A single plate character.'),
+  confidence: z.number().describe('Confidence for this character (0-1).'),
+});
+export type PlateCharacter = z.infer<typeof PlateCharacterSchema>;
+
+const VehicleAttributeSchema = z.object({
+  value: z.string(),
+  confidence: z.number().describe('Confidence in this value (0-1).'),
+});
+export type VehicleAttribute = z.infer<typeof VehicleAttributeSchema>;
+
+const VehicleAttributesSchema = z.object({
+  colour: VehicleAttributeSchema.optional().describe('Main body colour, e.g. "white", "silver", "dark blue".'),
+  bodyType: VehicleAttributeSchema.optional().describe(
+    'One of: hatchback, sedan, suv, mpv, pickup, van, truck, bus, motorcycle, auto-rickshaw, other.'
+  ),
+  make: VehicleAttributeSchema.optional().describe('Manufacturer, e.g. "Maruti Suzuki".'),
+  model: VehicleAttributeSchema.optional().describe('Model name without trim, e.g. "Swift".'),
+});
+export type VehicleAttributes = z.infer<typeof VehicleAttributesSchema>;
+
+const DetectedPlateSchema = z.object({
   plateNumber: z.string(),
+  confidence: z.number().describe('Overall read confidence (0-1).'),
+  characters: z.array(PlateCharacterSchema),
+  boundingBox: BoundingBoxSchema.optional(),
+  vehicle: VehicleAttributesSchema.optional().describe('The vehicle the plate is mounted on.'),
+});
+export type DetectedPlate = z.infer<typeof DetectedPlateSchema>;
+
+const InitiateScanWithPromptOutputSchema = z.object({
+  plates: z.array(DetectedPlateSchema),
 });
 export type InitiateScanWithPromptOutput = z.infer<typeof InitiateScanWithPromptOutputSchema>;
 
@@ -21,10 +60,23 @@ const initiateScanWithPromptPrompt = ai.definePrompt({
   name: 'initiateScanWithPromptPrompt',
   input: {schema: InitiateScanWithPromptInputSchema},
   output: {schema: InitiateScanWithPromptOutputSchema},
-  prompt: `Extract license plate. Return JSON { "plateNumber": "TEXT" }.
+  prompt: `Extract every license plate visible in the image. Return JSON { "plates": [...] }, ordered left to right, with one entry per plate:
+  - "plateNumber": the plate text.
+  - "confidence": overall confidence in the read, 0 to 1.
+  - "characters": one entry per character of plateNumber (spaces excluded), each { "char", "confidence" }.
+  - "boundingBox": the plate's { x, y, width, height } as fractions of the image size.
+  - "vehicle": the vehicle carrying the plate, with "colour", "bodyType", "make" and "model", each { "value", "confidence" }. Omit any attribute you cannot see.
+  Return { "plates": [] } if no plate is visible.
   Image: {{media url=photoDataUri}}`,
 });
 
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const cleanAttribute = (attribute?: VehicleAttribute) =>
+  attribute && attribute.value.trim()
+    ? {value: attribute.value.trim(), confidence: clamp01(attribute.confidence)}
+    : undefined;
+
 const initiateScanWithPromptFlow = ai.defineFlow(
   {
     name: 'initiateScanWithPromptFlow',
@@ -33,6 +85,30 @@ const initiateScanWithPromptFlow = ai.defineFlow(
   },
   async input => {
     const {output} = await initiateScanWithPromptPrompt(input);
-    return output!;
+    return {
+      plates: output!.plates
+        .filter(plate => plate.plateNumber.trim().length > 0)
+        .map(plate => {
+          const box = plate.boundingBox;
+          const vehicle = plate.vehicle;
+          return {
+            plateNumber: plate.plateNumber,
+            confidence: clamp01(plate.confidence),
+            characters: plate.characters.map(c => ({char: c.char, confidence: clamp01(c.confidence)})),
+            boundingBox: box && {
+              x: clamp01(box.x),
+              y: clamp01(box.y),
+              width: clamp01(box.width),
+              height: clamp01(box.height),
+            },
+            vehicle: vehicle && {
+              colour: cleanAttribute(vehicle.colour),
+              bodyType: cleanAttribute(vehicle.bodyType),
+              make: cleanAttribute(vehicle.make),
+              model: cleanAttribute(vehicle.model),
+            },
+          };
+        }),
+    };
   }
 );
\ No newline at end of file
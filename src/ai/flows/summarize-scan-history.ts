@@ -2,15 +2,47 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {
+  averageDwellMinutes,
+  formatHour,
+  groupVisits,
+  peakHours,
+  repeatVisitors,
+  scansByHour,
+  uniquePlateCount,
+  type ScanPoint,
+} from '@/lib/scan-analytics';
+
+const ScanLineSchema = z.object({
+  plateNumber: z.string(),
+  seenAt: z.string().describe('Local time the plate was seen, "yyyy-MM-dd HH:mm:ss".'),
+  zone: z.string().optional(),
+});
 
 const SummarizeScanHistoryInputSchema = z.object({
-  scanHistory: z.string(),
+  scans: z.array(ScanLineSchema),
 });
 
 export type SummarizeScanHistoryInput = z.infer<typeof SummarizeScanHistoryInputSchema>;
 
-const SummarizeScanHistoryOutputSchema = z.object({
-  summary: z.string(),
+const AnomalySchema = z.object({
+  description: z.string(),
+  plateNumber: z.string().optional().describe('The plate involved, if the anomaly concerns one vehicle.'),
+  severity: z.enum(['low', 'medium', 'high']),
+});
+export type Anomaly = z.infer<typeof AnomalySchema>;
+
+const NarrativeSchema = z.object({
+  summary: z.string().describe('A few sentences on the patterns an enforcement supervisor should know about.'),
+  anomalies: z.array(AnomalySchema),
+});
+
+const SummarizeScanHistoryOutputSchema = NarrativeSchema.extend({
+  uniqueVehicles: z.number(),
+  repeatVisitors: z.array(z.object({plateNumber: z.string(), visits: z.number()})),
+  scansByHour: z.array(z.object({hour: z.number(), scans: z.number()})),
+  peakHours: z.array(z.number()).describe('Busiest hours of the day (0-23), busiest first.'),
+  averageDwellMinutes: z.number().nullable(),
 });
 
 export type SummarizeScanHistoryOutput = z.infer<typeof SummarizeScanHistoryOutputSchema>;
@@ -19,11 +51,24 @@ export async function summarizeScanHistory(input: SummarizeScanHistoryInput): Pr
   return summarizeScanHistoryFlow(input);
 }
 
+const PromptInputSchema = z.object({
+  scanHistory: z.string(),
+  statistics: z.string(),
+});
+
 const prompt = ai.definePrompt({
   name: 'summarizeScanHistoryPrompt',
-  input: {schema: SummarizeScanHistoryInputSchema},
-  output: {schema: SummarizeScanHistoryOutputSchema},
-  prompt: `Summarize plate history: {{scanHistory}}`,
+  input: {schema: PromptInputSchema},
+  output: {schema: NarrativeSchema},
+  prompt: `You are reviewing a parking enforcement scan log, one plate sighting per line.
+
+Statistics already computed from the log:
+{{statistics}}
+
+Write a short narrative summary, then list anomalies worth a supervisor's attention, such as plates seen at unusual hours, vehicles moving between zones unusually fast, or near-identical plates that may be misreads or clones. Return an empty list if nothing stands out. Do not restate the statistics as anomalies.
+
+Log:
+{{scanHistory}}`,
 });
 
 const summarizeScanHistoryFlow = ai.defineFlow(
@@ -32,8 +77,35 @@ const summarizeScanHistoryFlow = ai.defineFlow(
     inputSchema: SummarizeScanHistoryInputSchema,
     outputSchema: SummarizeScanHistoryOutputSchema,
   },
-  async input => {
-    const {output} = await prompt(input);
-    return output!;
+  async ({scans}) => {
+    // Counts come from the data rather than the model, so charts are exact.
+    const points: ScanPoint[] = scans.map(scan => ({
+      plateNumber: scan.plateNumber,
+      at: new Date(scan.seenAt.replace(' ', 'T')),
+      zoneId: scan.zone,
+    }));
+    const visits = groupVisits(points);
+    const byHour = scansByHour(points);
+    const stats = {
+      uniqueVehicles: uniquePlateCount(points),
+      repeatVisitors: repeatVisitors(visits),
+      scansByHour: byHour,
+      peakHours: peakHours(byHour),
+      averageDwellMinutes: averageDwellMinutes(visits),
+    };
+
+    const statistics = [
+      `Scans: ${scans.length}`,
+      `Unique vehicles: ${stats.uniqueVehicles}`,
+      `Repeat visitors: ${stats.repeatVisitors.map(r => `${r.plateNumber} (${r.visits} visits)`).join(', ') || 'none'}`,
+      `Peak hours: ${stats.peakHours.map(formatHour).join(', ') || 'none'}`,
+      `Average dwell: ${stats.averageDwellMinutes === null ? 'unknown' : `${stats.averageDwellMinutes} min`}`,
+    ].join('\n');
+    const scanHistory = scans
+      .map(scan => `${scan.plateNumber} at ${scan.seenAt}${scan.zone ? ` in ${scan.zone}` : ''}`)
+      .join('\n');
+
+    const {output} = await prompt({scanHistory, statistics});
+    return {...stats, ...output!};
   }
-);
\ No newline at end of file
+);
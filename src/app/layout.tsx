@@ -1,10 +1,18 @@
-import type {Metadata} from 'next';
+import type {Metadata, Viewport} from 'next';
 import './globals.css';
 import {Toaster} from '@/components/ui/toaster';
+import {AuthProvider} from '@/hooks/use-auth';
+import {ServiceWorkerRegistration} from '@/components/service-worker';
 
 export const metadata: Metadata = {
   title: 'ParkConscious | Live Number Plate OCR',
   description: 'Real-time car number plate scanning and history log.',
+  icons: {icon: '/icon.svg'},
+  appleWebApp: {capable: true, title: 'ParkConscious', statusBarStyle: 'black-translucent'},
+};
+
+export const viewport: Viewport = {
+  themeColor: '#050708',
 };
 
 export default function RootLayout({
@@ -20,8 +28,9 @@ export default function RootLayout({
         <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet" />
       </head>
       <body className="font-body antialiased selection:bg-accent/30">
-        {children}
+        <AuthProvider>{children}</AuthProvider>
         <Toaster />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
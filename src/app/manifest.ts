@@ -0,0 +1,18 @@
+import type {MetadataRoute} from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'ParkConscious',
+    short_name: 'ParkConscious',
+    description: 'Real-time car number plate scanning and history log.',
+    start_url: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#050708',
+    theme_color: '#050708',
+    icons: [
+      {src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any'},
+      {src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable'},
+    ],
+  };
+}
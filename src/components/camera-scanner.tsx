@@ -4,53 +4,213 @@ import { useRef, useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Scan, Save, RefreshCcw, Loader2 } from "lucide-react";
-import { initiateScanWithPrompt } from "@/ai/flows/initiate-scan-with-prompt";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Scan, Save, RefreshCcw, Loader2, Repeat, Flashlight, FlashlightOff } from "lucide-react";
+import { type BoundingBox, type DetectedPlate } from "@/ai/flows/initiate-scan-with-prompt";
 import { useToast } from "@/hooks/use-toast";
+import { useAutoScan } from "@/hooks/use-auto-scan";
+import { DEFAULT_SCAN_SETTINGS, loadScanSettings, saveScanSettings, type ScanSettings } from "@/lib/scan-settings";
+import { type GeoFix, type PlateRead } from "@/lib/types";
+import { getPlateRegion } from "@/lib/plate-formats";
+import { recognizeCapture } from "@/lib/plate-recognition";
+import { prepareOcrEngines } from "@/lib/ocr-engines";
+import { describeVehicle } from "@/lib/vehicle-attributes";
+import { usePlateLists } from "@/hooks/use-plate-lists";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { useCamera } from "@/hooks/use-camera";
+import { PossibleCloneBadge, VerdictBadge } from "./verdict-badge";
+import { ScanSettingsPopover } from "./scan-settings";
+import { CameraSettingsSheet } from "./camera-settings";
 import { cn } from "@/lib/utils";
 
 interface CameraScannerProps {
-  onScan: (plate: string) => void;
+  onScan: (plates: PlateRead[], location?: GeoFix) => void;
+  /** Keeps frames that could not be sent for OCR, to be read once the device is back online. */
+  onQueue: (frames: string[], location?: GeoFix) => void;
 }
 
-export function CameraScanner({ onScan }: CameraScannerProps) {
+// Characters read below this confidence are flagged for the operator to check.
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Delay between frames of a consensus burst, long enough for the image to vary slightly.
+const BURST_SPACING_MS = 150;
+
+type FrameSize = { width: number; height: number };
+
+// Maps a box normalized to the captured frame onto the <video> element, which
+// renders with object-cover and so may crop the frame on one axis.
+function toOverlayStyle(box: BoundingBox, frame: FrameSize, video: HTMLVideoElement) {
+  const scale = Math.max(video.clientWidth / frame.width, video.clientHeight / frame.height);
+  const offsetX = (video.clientWidth - frame.width * scale) / 2;
+  const offsetY = (video.clientHeight - frame.height * scale) / 2;
+  return {
+    left: offsetX + box.x * frame.width * scale,
+    top: offsetY + box.y * frame.height * scale,
+    width: box.width * frame.width * scale,
+    height: box.height * frame.height * scale,
+  };
+}
+
+function PlateText({ plate }: { plate: DetectedPlate }) {
+  if (plate.characters.length === 0) return <>{plate.plateNumber}</>;
+  return (
+    <>
+      {plate.characters.map((c, i) => (
+        <span
+          key={i}
+          title={`${Math.round(c.confidence * 100)}% confidence`}
+          className={cn(
+            c.confidence < LOW_CONFIDENCE_THRESHOLD &&
+              "text-destructive underline decoration-dotted underline-offset-8"
+          )}
+        >
+          {c.char.toUpperCase()}
+        </span>
+      ))}
+    </>
+  );
+}
+
+// Cloud OCR runs on the server, so a request that never got a response is worth retrying later.
+function isConnectivityError(error: unknown) {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+type Frame = { photoDataUri: string; frameSize: FrameSize };
+
+export function CameraScanner({ onScan, onQueue }: CameraScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
+  const camera = useCamera();
+  const { stream } = camera;
   const [isScanning, setIsScanning] = useState(false);
-  const [detectedPlate, setDetectedPlate] = useState<string | null>(null);
+  const [detections, setDetections] = useState<PlateRead[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [isAutoMode, setIsAutoMode] = useState(false);
+  const [settings, setSettings] = useState<ScanSettings>(DEFAULT_SCAN_SETTINGS);
+  const [lastAutoSaved, setLastAutoSaved] = useState<string | null>(null);
+  const [isAutoOffline, setIsAutoOffline] = useState(false);
+  const lastLoggedRef = useRef(new Map<string, number>());
+  const listEntries = usePlateLists();
+  const { getFix, isDenied: isLocationDenied } = useGeolocation(settings.geotag);
   const { toast } = useToast();
 
   useEffect(() => {
-    async function setupCamera() {
-      try {
-        const userStream = await navigator.mediaDevices.getUserMedia({
-          video: { 
-            facingMode: "environment", 
-            width: { ideal: 1920 }, 
-            height: { ideal: 1080 } 
-          },
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = userStream;
-        }
-        setStream(userStream);
-      } catch (err) {
+    setSettings(loadScanSettings());
+  }, []);
+
+  useEffect(() => {
+    if (isLocationDenied) {
+      toast({
+        title: "Location Unavailable",
+        description: "Scans will be saved without a location.",
+        variant: "destructive",
+      });
+    }
+  }, [isLocationDenied]);
+
+  useEffect(() => {
+    // Best effort: without the on-device model a fallback read fails and the capture is queued.
+    if (navigator.onLine) prepareOcrEngines(settings.ocrPolicy).catch(() => {});
+  }, [settings.ocrPolicy]);
+
+  const updateSettings = (next: ScanSettings) => {
+    setSettings(next);
+    saveScanSettings(next);
+  };
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    if (camera.error) {
+      toast({
+        title: "Camera Error",
+        description: "Could not access camera.",
+        variant: "destructive",
+      });
+    }
+  }, [camera.error]);
+
+  const captureFrame = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return null;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Context error");
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return {
+      photoDataUri: canvas.toDataURL('image/jpeg', 0.8),
+      frameSize: { width: canvas.width, height: canvas.height },
+    };
+  };
+
+  // Captures the current view: one frame, or a burst when consensus reads are configured.
+  const captureFrames = async (): Promise<Frame[] | null> => {
+    const frames: Frame[] = [];
+    for (let i = 0; i < Math.max(1, settings.burstFrames); i++) {
+      if (i > 0) await new Promise((resolve) => setTimeout(resolve, BURST_SPACING_MS));
+      const frame = captureFrame();
+      if (!frame) return null;
+      frames.push(frame);
+    }
+    return frames;
+  };
+
+  // Reads the current view. With `queueOffline`, frames that could not reach
+  // OCR are queued and reported as `queued` instead of throwing.
+  const readPlates = async (
+    queueOffline: boolean
+  ): Promise<{ plates: PlateRead[]; frameSize: FrameSize } | { queued: true } | null> => {
+    const frames = await captureFrames();
+    if (!frames) return null;
+    const photos = frames.map((frame) => frame.photoDataUri);
+    try {
+      const plates = await recognizeCapture(photos, {
+        region: getPlateRegion(settings.regionId),
+        quorum: settings.quorum,
+        policy: settings.ocrPolicy,
+        listEntries,
+      });
+      return { plates, frameSize: frames[0].frameSize };
+    } catch (error) {
+      if (!queueOffline || !isConnectivityError(error)) throw error;
+      onQueue(photos, getFix());
+      return { queued: true };
+    }
+  };
+
+  const alertListHits = (plates: PlateRead[]) => {
+    plates.forEach(({ plateNumber, match, vehicle }) => {
+      if (match?.vehicleMismatches && match.entry?.expectedVehicle && vehicle) {
         toast({
-          title: "Camera Error",
-          description: "Could not access camera.",
+          title: `Possible cloned plate: ${plateNumber}`,
+          description: `Seen on a ${describeVehicle(vehicle)}; listed for a ${describeVehicle(match.entry.expectedVehicle)}.`,
           variant: "destructive",
         });
+        return;
       }
-    }
-
-    setupCamera();
+      if (match?.verdict !== "banned" && match?.verdict !== "watch") return;
+      toast({
+        title: `${match.verdict === "banned" ? "Banned vehicle" : "Watchlist vehicle"}: ${plateNumber}`,
+        description: match.entry?.notes,
+        variant: "destructive",
+      });
+    });
+  };
 
-    return () => {
-      stream?.getTracks().forEach((track) => track.stop());
-    };
-  }, []);
+  const rememberLogged = (plates: PlateRead[]) => {
+    const now = Date.now();
+    plates.forEach((plate) => lastLoggedRef.current.set(plate.plateNumber, now));
+  };
 
   const handleScan = async () => {
     if (isCapturing || !videoRef.current || !canvasRef.current) return;
@@ -59,24 +219,25 @@ export function CameraScanner({ onScan }: CameraScannerProps) {
     setIsScanning(true);
 
     try {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Context error");
-      
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const photoDataUri = canvas.toDataURL('image/jpeg', 0.8);
-
-      const result = await initiateScanWithPrompt({ 
-        photoDataUri
-      });
+      const read = await readPlates(true);
+      if (!read) return;
+      if ("queued" in read) {
+        toast({
+          title: "Saved for Later",
+          description: "No connection. The capture will be read when you are back online.",
+        });
+        return;
+      }
 
-      if (result.plateNumber && result.plateNumber.trim().length > 0) {
-        setDetectedPlate(result.plateNumber.toUpperCase());
+      const { plates, frameSize } = read;
+      if (plates.length > 0) {
+        setFrameSize(frameSize);
+        setDetections(plates);
+        alertListHits(plates);
+        // Reads that missed quorum stay unticked so saving them is a deliberate choice.
+        setSelected(
+          new Set(plates.flatMap((plate, i) => (plate.reachedQuorum === false ? [] : [i])))
+        );
       } else {
         toast({
           title: "No Plate Found",
@@ -94,13 +255,75 @@ export function CameraScanner({ onScan }: CameraScannerProps) {
     }
   };
 
-  const savePlate = () => {
-    if (detectedPlate) {
-      onScan(detectedPlate);
-      setDetectedPlate(null);
+  // Auto-scan never queues: replayed later, every changed frame would be logged
+  // without the repeat cooldown. Frames that can't be read offline are dropped.
+  const handleAutoSample = async () => {
+    try {
+      const read = await readPlates(false);
+      if (!read || "queued" in read) return;
+
+      setIsAutoOffline(false);
+      const { plates, frameSize } = read;
+      setFrameSize(frameSize);
+      setDetections(plates);
+      alertListHits(plates);
+
+      const now = Date.now();
+      const fresh = plates.filter((plate) => {
+        if (plate.reachedQuorum === false) return false;
+        const lastLogged = lastLoggedRef.current.get(plate.plateNumber);
+        return lastLogged === undefined || now - lastLogged >= settings.cooldownMs;
+      });
+      if (fresh.length > 0) {
+        onScan(fresh, getFix());
+        rememberLogged(fresh);
+        setLastAutoSaved(fresh.map((plate) => plate.plateNumber).join(", "));
+      }
+    } catch (error) {
+      // A failed sample is retried on the next scene change; don't flood the operator with toasts.
+      if (isConnectivityError(error)) setIsAutoOffline(true);
+    }
+  };
+
+  useAutoScan({
+    enabled: isAutoMode && !!stream,
+    intervalMs: settings.intervalMs,
+    changeThreshold: settings.changeThreshold,
+    videoRef,
+    onSample: handleAutoSample,
+  });
+
+  const toggleAutoMode = () => {
+    resetDetections();
+    setLastAutoSaved(null);
+    setIsAutoOffline(false);
+    setIsAutoMode((prev) => !prev);
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const resetDetections = () => {
+    setDetections([]);
+    setSelected(new Set());
+  };
+
+  const savePlates = (plates: PlateRead[]) => {
+    if (plates.length > 0) {
+      onScan(plates, getFix());
+      rememberLogged(plates);
+      resetDetections();
     }
   };
 
+  const isMulti = detections.length > 1;
+
   return (
     <div className="relative w-full h-full bg-black overflow-hidden flex flex-col items-center justify-center">
       <video
@@ -116,7 +339,69 @@ export function CameraScanner({ onScan }: CameraScannerProps) {
       <div className="absolute inset-0 pointer-events-none z-10">
         <div className="w-full h-full flex flex-col items-center justify-center p-4">
           {isScanning && <div className="scan-line" />}
+
+          {!isScanning && frameSize && videoRef.current &&
+            detections.map((plate, i) =>
+              plate.boundingBox ? (
+                <div
+                  key={i}
+                  className={cn(
+                    "absolute rounded-md border-2 animate-in fade-in zoom-in-95",
+                    selected.has(i)
+                      ? "border-accent shadow-[0_0_20px_rgba(144,219,244,0.6)]"
+                      : "border-white/30"
+                  )}
+                  style={toOverlayStyle(plate.boundingBox, frameSize, videoRef.current!)}
+                >
+                  {isMulti && (
+                    <span className="absolute -top-6 left-0 rounded bg-black/70 px-1.5 text-xs font-bold text-accent">
+                      {i + 1}
+                    </span>
+                  )}
+                </div>
+              ) : null
+            )}
           
+          {isAutoMode && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-full bg-black/60 px-4 py-2 text-xs text-accent backdrop-blur-xl border border-accent/30">
+              <span className="h-2 w-2 rounded-full bg-accent animate-pulse" />
+              <span className="font-semibold uppercase tracking-widest">Auto</span>
+              {isAutoOffline ? (
+                <span className="text-destructive">Offline, not logging</span>
+              ) : (
+                lastAutoSaved && <span className="font-mono text-foreground/80">Saved {lastAutoSaved}</span>
+              )}
+            </div>
+          )}
+
+          {stream && (
+            <div className="absolute top-6 right-4 flex flex-col gap-3 pointer-events-auto">
+              <CameraSettingsSheet
+                devices={camera.devices}
+                deviceId={camera.deviceId}
+                capabilities={camera.capabilities}
+                controls={camera.controls}
+                onSelectDevice={camera.selectDevice}
+                onChange={camera.updateControls}
+              />
+              {camera.capabilities?.torch && (
+                <button
+                  onClick={() => camera.updateControls({ ...camera.controls, torch: !camera.controls.torch })}
+                  aria-label={camera.controls.torch ? "Turn flashlight off" : "Turn flashlight on"}
+                  aria-pressed={!!camera.controls.torch}
+                  className={cn(
+                    "flex items-center justify-center w-12 h-12 rounded-full border backdrop-blur-xl active:scale-95 transition-all",
+                    camera.controls.torch
+                      ? "bg-accent text-accent-foreground border-accent"
+                      : "bg-secondary/80 text-accent border-white/10"
+                  )}
+                >
+                  {camera.controls.torch ? <Flashlight className="h-5 w-5" /> : <FlashlightOff className="h-5 w-5" />}
+                </button>
+              )}
+            </div>
+          )}
+
           {!stream && (
             <div className="flex flex-col items-center gap-4 text-white/50 bg-black/40 p-8 rounded-3xl backdrop-blur-xl">
               <Loader2 className="animate-spin h-12 w-12 text-accent" />
@@ -125,42 +410,151 @@ export function CameraScanner({ onScan }: CameraScannerProps) {
         </div>
       </div>
 
-      {detectedPlate && !isScanning && (
+      {detections.length > 0 && !isScanning && !isAutoMode && (
         <div className="absolute top-24 left-1/2 -translate-x-1/2 w-[90%] max-w-xs z-40 float-animation">
           <Card className="glass-panel p-5 shadow-2xl border-accent/40 plate-highlight">
             <div className="flex flex-col items-center gap-4">
               <Badge variant="outline" className="text-accent border-accent/50 text-[10px] uppercase tracking-[0.2em] px-3 py-1 font-bold">
-                Detected
+                {isMulti ? `${detections.length} Detected` : "Detected"}
               </Badge>
-              <div className="text-4xl font-mono font-bold tracking-tighter text-accent bg-black/60 px-6 py-3 rounded-xl border border-white/10 w-full text-center">
-                {detectedPlate}
-              </div>
+              {isMulti ? (
+                <div className="flex flex-col gap-2 w-full max-h-64 overflow-y-auto">
+                  {detections.map((plate, i) => (
+                    <label
+                      key={i}
+                      className="flex items-center gap-3 bg-black/60 px-4 py-2 rounded-xl border border-white/10 cursor-pointer"
+                    >
+                      <Checkbox checked={selected.has(i)} onCheckedChange={() => toggleSelected(i)} />
+                      <span className="text-xs font-bold text-muted-foreground">{i + 1}</span>
+                      <span className="flex-1 text-xl font-mono font-bold tracking-tighter text-accent">
+                        <PlateText plate={plate} />
+                      </span>
+                      {plate.formatValid === false && (
+                        <span className="text-xs font-bold text-destructive" title="Unrecognised plate format">
+                          ?
+                        </span>
+                      )}
+                      {plate.match?.vehicleMismatches ? (
+                        <PossibleCloneBadge mismatches={plate.match.vehicleMismatches} className="px-2 text-[10px]" />
+                      ) : plate.match && (
+                        <VerdictBadge verdict={plate.match.verdict} fuzzy={plate.match.fuzzy} className="px-2 text-[10px]" />
+                      )}
+                      <span
+                        className={cn(
+                          "text-xs",
+                          plate.reachedQuorum === false ? "text-destructive" : "text-muted-foreground"
+                        )}
+                        title={plate.reachedQuorum === false ? "Low confidence: no quorum" : undefined}
+                      >
+                        {Math.round(plate.confidence * 100)}%
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <div className="text-4xl font-mono font-bold tracking-tighter text-accent bg-black/60 px-6 py-3 rounded-xl border border-white/10 w-full text-center">
+                    <PlateText plate={detections[0]} />
+                  </div>
+                  {detections[0].match && (
+                    <div className="flex flex-col items-center gap-1">
+                      <VerdictBadge
+                        verdict={detections[0].match.verdict}
+                        fuzzy={detections[0].match.fuzzy}
+                        className="text-xs uppercase tracking-widest"
+                      />
+                      {detections[0].match.fuzzy && detections[0].match.entry && (
+                        <p className="text-xs text-muted-foreground">
+                          Closest listed plate: {detections[0].match.entry.plateNumber}
+                        </p>
+                      )}
+                      {detections[0].match.vehicleMismatches && (
+                        <PossibleCloneBadge
+                          mismatches={detections[0].match.vehicleMismatches}
+                          className="text-xs uppercase tracking-widest"
+                        />
+                      )}
+                    </div>
+                  )}
+                  {detections[0].vehicle && (
+                    <p className="text-sm text-foreground/80">{describeVehicle(detections[0].vehicle)}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {detections[0].agreement !== undefined
+                      ? `${Math.round(detections[0].agreement * 100)}% agreement · ${detections[0].frameCount}/${settings.burstFrames} frames`
+                      : `${Math.round(detections[0].confidence * 100)}% confidence`}
+                    {detections[0].characters.some((c) => c.confidence < LOW_CONFIDENCE_THRESHOLD) &&
+                      " · check highlighted characters"}
+                  </p>
+                  {detections[0].reachedQuorum === false && (
+                    <Badge variant="destructive" className="text-[10px] uppercase tracking-widest">
+                      Low confidence · no quorum
+                    </Badge>
+                  )}
+                  {detections[0].formatValid === false && (
+                    <Badge variant="outline" className="text-[10px] uppercase tracking-widest text-destructive border-destructive/50">
+                      Unrecognised plate format
+                    </Badge>
+                  )}
+                </>
+              )}
               <div className="flex w-full gap-3 mt-1">
                 <Button 
                   variant="outline" 
                   className="flex-1 bg-secondary/30 border-white/10"
-                  onClick={() => setDetectedPlate(null)}
+                  onClick={resetDetections}
                 >
                   <RefreshCcw className="h-4 w-4 mr-2" />
                   Redo
                 </Button>
                 <Button 
                   className="flex-1 bg-accent text-accent-foreground"
-                  onClick={savePlate}
+                  onClick={() =>
+                    savePlates(isMulti ? detections.filter((_, i) => selected.has(i)) : detections)
+                  }
+                  disabled={isMulti && selected.size === 0}
                 >
                   <Save className="h-4 w-4 mr-2" />
-                  Save
+                  {isMulti
+                    ? `Save (${selected.size})`
+                    : detections[0].reachedQuorum === false
+                      ? "Save anyway"
+                      : "Save"}
                 </Button>
               </div>
+              {isMulti && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full text-accent hover:bg-accent/10"
+                  onClick={() => savePlates(detections)}
+                >
+                  Save all {detections.length}
+                </Button>
+              )}
             </div>
           </Card>
         </div>
       )}
 
-      <div className="absolute bottom-32 left-0 right-0 flex justify-center items-center z-20">
+      <div className="absolute bottom-32 left-0 right-0 flex justify-center items-center gap-6 z-20">
+        <button
+          onClick={toggleAutoMode}
+          disabled={!stream}
+          aria-label={isAutoMode ? "Stop auto-scan" : "Start auto-scan"}
+          aria-pressed={isAutoMode}
+          className={cn(
+            "flex items-center justify-center w-12 h-12 rounded-full border backdrop-blur-xl active:scale-95 transition-all disabled:opacity-50",
+            isAutoMode
+              ? "bg-accent text-accent-foreground border-accent"
+              : "bg-secondary/80 text-accent border-white/10"
+          )}
+        >
+          <Repeat className="h-5 w-5" />
+        </button>
         <button
           onClick={handleScan}
-          disabled={isCapturing || !stream}
+          disabled={isCapturing || !stream || isAutoMode}
           className={cn(
             "group relative flex items-center justify-center w-28 h-28 rounded-full transition-all active:scale-95 disabled:opacity-50",
             isCapturing && "scale-110"
@@ -176,6 +570,7 @@ export function CameraScanner({ onScan }: CameraScannerProps) {
             )}
           </div>
         </button>
+        <ScanSettingsPopover settings={settings} onChange={updateSettings} />
       </div>
     </div>
   );
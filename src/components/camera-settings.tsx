@@ -0,0 +1,145 @@
+"use client";
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera } from "lucide-react";
+import { type CameraCapabilities, type CameraControls } from "@/lib/camera-settings";
+
+interface CameraSettingsSheetProps {
+  devices: MediaDeviceInfo[];
+  deviceId?: string;
+  capabilities: CameraCapabilities | null;
+  controls: CameraControls;
+  onSelectDevice: (deviceId: string) => void;
+  onChange: (controls: CameraControls) => void;
+}
+
+const formatEv = (ev: number) => `${ev > 0 ? "+" : ""}${ev.toFixed(1)} EV`;
+
+export function CameraSettingsSheet({
+  devices,
+  deviceId,
+  capabilities,
+  controls,
+  onSelectDevice,
+  onChange,
+}: CameraSettingsSheetProps) {
+  const hasControls =
+    capabilities &&
+    (capabilities.torch || capabilities.zoom || capabilities.manualFocus || capabilities.exposureCompensation);
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          aria-label="Camera settings"
+          className="flex items-center justify-center w-12 h-12 rounded-full bg-secondary/80 border border-white/10 text-accent backdrop-blur-xl active:scale-95 transition-transform"
+        >
+          <Camera className="h-5 w-5" />
+        </button>
+      </SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Camera</SheetTitle>
+          <SheetDescription>Settings are remembered for each camera.</SheetDescription>
+        </SheetHeader>
+        <div className="space-y-5 py-4">
+          {devices.length > 1 && (
+            <div className="space-y-3">
+              <Label className="text-sm">Camera</Label>
+              <Select value={deviceId} onValueChange={onSelectDevice}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a camera" />
+                </SelectTrigger>
+                <SelectContent>
+                  {devices.map((device, i) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Camera ${i + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {capabilities?.torch && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="torch" className="text-sm">Flashlight</Label>
+              <Switch
+                id="torch"
+                checked={controls.torch ?? false}
+                onCheckedChange={(torch) => onChange({ ...controls, torch })}
+              />
+            </div>
+          )}
+          {capabilities?.zoom && (
+            <div className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <Label>Zoom</Label>
+                <span className="text-muted-foreground">{(controls.zoom ?? capabilities.zoom.min).toFixed(1)}×</span>
+              </div>
+              <Slider
+                min={capabilities.zoom.min}
+                max={capabilities.zoom.max}
+                step={capabilities.zoom.step || 0.1}
+                value={[controls.zoom ?? capabilities.zoom.min]}
+                onValueChange={([zoom]) => onChange({ ...controls, zoom })}
+              />
+            </div>
+          )}
+          {capabilities?.manualFocus && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="autofocus" className="text-sm">Autofocus</Label>
+                <Switch
+                  id="autofocus"
+                  checked={!controls.manualFocus}
+                  onCheckedChange={(autofocus) => onChange({ ...controls, manualFocus: !autofocus })}
+                />
+              </div>
+              {controls.manualFocus && capabilities.focusDistance && (
+                <Slider
+                  aria-label="Focus distance"
+                  min={capabilities.focusDistance.min}
+                  max={capabilities.focusDistance.max}
+                  step={capabilities.focusDistance.step || 0.01}
+                  value={[controls.focusDistance ?? capabilities.focusDistance.min]}
+                  onValueChange={([focusDistance]) => onChange({ ...controls, focusDistance })}
+                />
+              )}
+            </div>
+          )}
+          {capabilities?.exposureCompensation && (
+            <div className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <Label>Exposure</Label>
+                <span className="text-muted-foreground">{formatEv(controls.exposureCompensation ?? 0)}</span>
+              </div>
+              <Slider
+                min={capabilities.exposureCompensation.min}
+                max={capabilities.exposureCompensation.max}
+                step={capabilities.exposureCompensation.step || 0.1}
+                value={[controls.exposureCompensation ?? 0]}
+                onValueChange={([exposureCompensation]) => onChange({ ...controls, exposureCompensation })}
+              />
+            </div>
+          )}
+          {!hasControls && (
+            <p className="text-sm text-muted-foreground">
+              This camera doesn't offer flashlight, zoom, focus or exposure controls in this browser.
+            </p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,227 @@
+"use client";
+
+import { useMemo, useState, type ReactNode } from "react";
+import { endOfDay, format, startOfDay, subDays } from "date-fns";
+import { type DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CalendarRange, Car, Loader2, Repeat, ScanLine, TriangleAlert, Users } from "lucide-react";
+import { useScansBetween } from "@/hooks/use-scan-history";
+import { useZoneLabels, useZones } from "@/hooks/use-zones";
+import { countBays } from "@/lib/zone-repository";
+import {
+  formatHour,
+  groupVisits,
+  operatorThroughput,
+  repeatVisitors,
+  scansByDay,
+  scansByHour,
+  uniquePlateCount,
+  zoneOccupancy,
+  type ScanPoint,
+} from "@/lib/scan-analytics";
+
+const DEFAULT_RANGE_DAYS = 7;
+
+const chartConfig = {
+  scans: { label: "Scans", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function StatCard({ icon: Icon, label, value }: { icon: typeof Car; label: string; value: string | number }) {
+  return (
+    <Card className="bg-card/40 border-white/5 p-4 space-y-1">
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Icon className="h-3.5 w-3.5 text-accent" />
+        {label}
+      </p>
+      <p className="text-2xl font-bold text-foreground">{value}</p>
+    </Card>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <Card className="bg-card/40 border-white/5 p-4 space-y-3">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {children}
+    </Card>
+  );
+}
+
+export function Dashboard() {
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: startOfDay(subDays(new Date(), DEFAULT_RANGE_DAYS - 1)),
+    to: endOfDay(new Date()),
+  }));
+  const from = startOfDay(range?.from ?? new Date());
+  const to = endOfDay(range?.to ?? range?.from ?? new Date());
+  const { scans, isLoading, error } = useScansBetween(from, to);
+  const zones = useZones();
+  const zoneLabels = useZoneLabels();
+
+  const stats = useMemo(() => {
+    const points: ScanPoint[] = scans.map((scan) => ({
+      plateNumber: scan.plateNumber,
+      at: new Date(scan.timestamp),
+      zoneId: scan.zoneId,
+      operator: scan.operatorName ?? scan.operatorId,
+    }));
+    const visits = groupVisits(points);
+    return {
+      uniquePlates: uniquePlateCount(points),
+      byHour: scansByHour(points),
+      byDay: scansByDay(points, from, to).map((count) => ({ ...count, label: format(new Date(`${count.day}T00:00`), "MMM d") })),
+      repeats: repeatVisitors(visits, 5),
+      occupancy: zoneOccupancy(visits),
+      operators: operatorThroughput(points),
+    };
+  }, [scans, from.getTime(), to.getTime()]);
+
+  const capacityOf = (zoneId: string) => {
+    const bays = zones.find((zone) => zone.id === zoneId)?.bays;
+    return bays ? countBays(bays) : undefined;
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 pb-32">
+      <div className="flex items-center justify-between sticky top-0 bg-background/95 backdrop-blur-sm z-10 py-4 px-2">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Dashboard</h2>
+          <p className="text-muted-foreground text-sm">Computed on this device</p>
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="bg-secondary/50 border-accent/20 hover:border-accent/50">
+              <CalendarRange className="h-4 w-4 mr-2 text-accent" />
+              {format(from, "MMM d")} – {format(to, "MMM d")}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-auto p-0">
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={setRange}
+              disabled={{ after: new Date() }}
+              defaultMonth={from}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="animate-spin h-8 w-8 text-accent" />
+        </div>
+      ) : error ? (
+        <div className="flex flex-col items-center justify-center py-24 text-center space-y-4">
+          <TriangleAlert className="h-12 w-12 text-destructive" />
+          <p className="text-muted-foreground max-w-xs">Could not read the scan log on this device.</p>
+        </div>
+      ) : (
+        <div className="space-y-4 px-2">
+          <div className="grid grid-cols-3 gap-3">
+            <StatCard icon={ScanLine} label="Scans" value={scans.length} />
+            <StatCard icon={Car} label="Unique plates" value={stats.uniquePlates} />
+            <StatCard icon={Repeat} label="Repeat plates" value={stats.repeats.length} />
+          </div>
+
+          <Section title="Scans per day">
+            <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+              <BarChart data={stats.byDay}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="scans" fill="var(--color-scans)" radius={3} />
+              </BarChart>
+            </ChartContainer>
+          </Section>
+
+          <Section title="Scans per hour">
+            <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+              <BarChart data={stats.byHour}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={5} tickFormatter={formatHour} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload[0]?.payload.hour)} />}
+                />
+                <Bar dataKey="scans" fill="var(--color-scans)" radius={3} />
+              </BarChart>
+            </ChartContainer>
+          </Section>
+
+          <Section title="Top repeat plates">
+            {stats.repeats.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No plate visited more than once.</p>
+            ) : (
+              stats.repeats.map((visitor) => (
+                <div key={visitor.plateNumber} className="flex items-center justify-between text-sm">
+                  <span className="font-mono text-accent">{visitor.plateNumber}</span>
+                  <span className="text-muted-foreground">{visitor.visits} visits</span>
+                </div>
+              ))
+            )}
+          </Section>
+
+          <Section title="Zone occupancy">
+            {stats.occupancy.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scans were tagged with a zone.</p>
+            ) : (
+              stats.occupancy.map((zone) => {
+                const capacity = capacityOf(zone.zoneId);
+                return (
+                  <div key={zone.zoneId} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{zoneLabels.get(zone.zoneId) ?? "Deleted zone"}</span>
+                      <span className="text-muted-foreground">
+                        peak {zone.peak}
+                        {capacity ? ` / ${capacity} bays` : ""} · {zone.vehicles} vehicles
+                      </span>
+                    </div>
+                    {capacity ? <Progress value={Math.min(100, (zone.peak / capacity) * 100)} className="h-1.5" /> : null}
+                  </div>
+                );
+              })
+            )}
+          </Section>
+
+          <Section title="Operator throughput">
+            {stats.operators.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scans in this range.</p>
+            ) : (
+              <>
+                <ChartContainer
+                  config={chartConfig}
+                  className="aspect-auto w-full"
+                  style={{ height: Math.max(80, stats.operators.length * 36) }}
+                >
+                  <BarChart data={stats.operators} layout="vertical" margin={{ left: 8 }}>
+                    <XAxis type="number" hide />
+                    <YAxis dataKey="operator" type="category" tickLine={false} axisLine={false} width={96} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="scans" fill="var(--color-scans)" radius={3} />
+                  </BarChart>
+                </ChartContainer>
+                {stats.operators.map((operator) => (
+                  <div key={operator.operator} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2">
+                      <Users className="h-3.5 w-3.5 text-muted-foreground" />
+                      {operator.operator}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {operator.scansPerHour} scans/hr over {operator.activeHours} h
+                    </span>
+                  </div>
+                ))}
+              </>
+            )}
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { useEvidence } from "@/hooks/use-evidence";
+import { type ScanResult } from "@/lib/types";
+
+interface EvidenceThumbnailProps {
+  scan: ScanResult;
+  /** Shown while the thumbnail loads or when the scan has no evidence. */
+  fallback: ReactNode;
+}
+
+/** The plate crop for a scan; opens the full frame in a full-screen viewer. */
+export function EvidenceThumbnail({ scan, fallback }: EvidenceThumbnailProps) {
+  const urls = useEvidence(scan);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!urls) return <>{fallback}</>;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        aria-label={`View evidence for ${scan.plateNumber}`}
+        className="shrink-0 overflow-hidden rounded-xl border border-accent/20 active:scale-95 transition-transform"
+      >
+        <img src={urls.thumbnailUrl} alt={`Plate ${scan.plateNumber}`} className="h-16 w-24 object-cover" />
+      </button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-none w-screen h-[100dvh] p-0 gap-0 flex flex-col bg-black border-0 sm:rounded-none">
+          <div className="p-4 pr-12">
+            <DialogTitle className="font-mono text-accent">{scan.plateNumber}</DialogTitle>
+            <DialogDescription>
+              {format(new Date(scan.timestamp), "MMM d, yyyy • h:mm:ss a")}
+              {scan.operatorName && ` • ${scan.operatorName}`}
+            </DialogDescription>
+          </div>
+          <div className="flex-1 min-h-0 flex items-center justify-center">
+            <img src={urls.frameUrl} alt={`Captured frame for ${scan.plateNumber}`} className="max-h-full max-w-full object-contain" />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileUp, Loader2 } from "lucide-react";
+import {
+  guessMapping,
+  IMPORT_FIELDS,
+  parseImportFile,
+  validatePermitRows,
+  validateScanRows,
+  type ColumnMapping,
+  type ImportContext,
+  type ImportRow,
+  type ImportTable,
+  type ImportTarget,
+} from "@/lib/import";
+import { scanRepository } from "@/lib/scan-repository";
+import { listRepository } from "@/lib/list-repository";
+import { getPlateRegion } from "@/lib/plate-formats";
+import { loadScanSettings } from "@/lib/scan-settings";
+import { type PlateListEntry, type ScanResult } from "@/lib/types";
+import { usePlateLists } from "@/hooks/use-plate-lists";
+import { useZoneLabels, useZones } from "@/hooks/use-zones";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const NOT_MAPPED = "none";
+// The preview table only renders this many rows; the counts cover the whole file.
+const PREVIEW_ROWS = 200;
+
+const TARGET_NOUNS: Record<ImportTarget, [string, string]> = {
+  scans: ["scan", "scans"],
+  permits: ["list entry", "list entries"],
+};
+
+type Step = "file" | "map" | "preview";
+
+type PreviewRow = ImportRow<ScanResult | PlateListEntry>;
+
+const plural = (count: number, target: ImportTarget) => `${count} ${TARGET_NOUNS[target][count === 1 ? 0 : 1]}`;
+
+function describeRecord(record: ScanResult | PlateListEntry) {
+  if ("timestamp" in record) return format(new Date(record.timestamp), "MMM d, yyyy h:mm a");
+  const validity = record.validUntil ? ` until ${record.validUntil}` : "";
+  return `${record.list}${validity}`;
+}
+
+interface ImportWizardProps {
+  target: ImportTarget;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Imports scans or list entries from a CSV or JSON file: pick, map columns, preview, commit. */
+export function ImportWizard({ target, open, onOpenChange }: ImportWizardProps) {
+  const listEntries = usePlateLists();
+  const zones = useZones();
+  const zoneLabels = useZoneLabels();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("file");
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fields = IMPORT_FIELDS[target];
+  const missingRequired = fields.filter((field) => field.required && !mapping[field.key]);
+  const ready = rows.filter((row) => row.record && !row.duplicate);
+  const duplicates = rows.filter((row) => row.duplicate).length;
+  const invalid = rows.filter((row) => row.errors.length > 0).length;
+  const visibleRows = (problemsOnly ? rows.filter((row) => !row.record || row.duplicate) : rows).slice(0, PREVIEW_ROWS);
+
+  const reset = () => {
+    setStep("file");
+    setFileName("");
+    setTable(null);
+    setMapping({});
+    setRows([]);
+    setFileError(null);
+    setProblemsOnly(false);
+  };
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileError(null);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) throw new Error("The file has no rows to import.");
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.columns, target));
+      setStep("map");
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : "The file could not be read.");
+    }
+  };
+
+  const validate = async () => {
+    if (!table) return;
+    setIsWorking(true);
+    try {
+      const context: ImportContext = {
+        region: getPlateRegion(loadScanSettings().regionId),
+        zones,
+        zoneLabels,
+        listEntries,
+        existingScans: [],
+      };
+      if (target === "permits") {
+        setRows(validatePermitRows(table, mapping, context));
+      } else {
+        // A first pass finds the imported time range, so only that slice of the log is loaded for duplicates.
+        const times = validateScanRows(table, mapping, context)
+          .flatMap((row) => (row.record ? [Date.parse(row.record.timestamp)] : []))
+          .sort((a, b) => a - b);
+        const existingScans =
+          times.length > 0
+            ? await scanRepository.findBetween(
+                new Date(times[0] - 1000).toISOString(),
+                new Date(times[times.length - 1] + 1000).toISOString()
+              )
+            : [];
+        setRows(validateScanRows(table, mapping, { ...context, existingScans }));
+      }
+      setStep("preview");
+    } catch (e) {
+      toast({ title: "Validation Failed", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Each repository write is a single transaction, so a failed import leaves nothing behind.
+  const commit = async () => {
+    const records = ready.map((row) => row.record!);
+    if (records.length === 0) return;
+    setIsWorking(true);
+    try {
+      if (target === "permits") await listRepository.put(records as PlateListEntry[]);
+      // The importer's uid is the audit stamp; the file's operator name is kept for display.
+      else await scanRepository.add((records as ScanResult[]).map((scan) => ({ ...scan, operatorId: user?.uid })));
+      toast({ title: "Import Complete", description: `${plural(records.length, target)} imported.` });
+      close(false);
+    } catch (e) {
+      toast({ title: "Import Failed", description: "Nothing was imported.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="bg-card border-accent/20 max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-accent">Import {TARGET_NOUNS[target][1]}</DialogTitle>
+          <DialogDescription>
+            {step === "file"
+              ? "Choose a CSV file with a header row, or a JSON array of records."
+              : step === "map"
+                ? `Match the columns in ${fileName} to the fields they hold.`
+                : "Check the rows before importing. Rows with errors and duplicates are skipped."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-3 py-4">
+            <Label
+              htmlFor="import-file"
+              className="flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed border-white/20 p-10 cursor-pointer hover:border-accent/50"
+            >
+              <FileUp className="h-8 w-8 text-accent" />
+              <span className="text-muted-foreground">Choose a .csv or .json file</span>
+            </Label>
+            <Input id="import-file" type="file" accept=".csv,.json,text/csv,application/json" className="sr-only" onChange={handleFile} />
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+          </div>
+        )}
+
+        {step === "map" && table && (
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+            {fields.map((field) => (
+              <div key={field.key} className="grid grid-cols-2 items-center gap-3">
+                <Label>
+                  {field.label}
+                  {field.required && <span className="text-destructive"> *</span>}
+                </Label>
+                <Select
+                  value={mapping[field.key] ?? NOT_MAPPED}
+                  onValueChange={(column) =>
+                    setMapping({ ...mapping, [field.key]: column === NOT_MAPPED ? undefined : column })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                    {table.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="flex-1 min-h-0 flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-accent/10 text-accent border-accent/20">{ready.length} ready</Badge>
+              {duplicates > 0 && <Badge variant="secondary">{duplicates} duplicate</Badge>}
+              {invalid > 0 && <Badge variant="destructive">{invalid} with errors</Badge>}
+              <div className="ml-auto flex items-center gap-2">
+                <Switch id="import-problems" checked={problemsOnly} onCheckedChange={setProblemsOnly} />
+                <Label htmlFor="import-problems" className="text-xs">
+                  Problems only
+                </Label>
+              </div>
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-white/10">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Plate</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-mono">{row.record?.plateNumber ?? "-"}</TableCell>
+                      <TableCell className="text-xs">{row.record ? describeRecord(row.record) : "-"}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.errors.length > 0 ? (
+                          <span className="text-destructive">{row.errors.join("; ")}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-muted-foreground">Duplicate, skipped</span>
+                        ) : (
+                          <span className="text-accent">OK</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visibleRows.length === PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} rows.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button className="bg-accent text-accent-foreground" onClick={validate} disabled={isWorking || missingRequired.length > 0}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button className="bg-accent text-accent-foreground" onClick={commit} disabled={isWorking || ready.length === 0}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {plural(ready.length, target)}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { AlertTriangle, Clock, Repeat, Car } from "lucide-react";
+import { type Anomaly, type SummarizeScanHistoryOutput } from "@/ai/flows/summarize-scan-history";
+import { formatHour } from "@/lib/scan-analytics";
+import { cn } from "@/lib/utils";
+
+const chartConfig = {
+  scans: { label: "Scans", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const SEVERITY_STYLES: Record<Anomaly["severity"], string> = {
+  high: "bg-destructive/15 text-destructive border-destructive/40",
+  medium: "bg-amber-500/15 text-amber-300 border-amber-500/40",
+  low: "bg-secondary/60 text-muted-foreground border-white/10",
+};
+
+function StatCard({ icon: Icon, label, value }: { icon: typeof Car; label: string; value: string }) {
+  return (
+    <Card className="bg-secondary/40 border-white/5 p-4 space-y-1">
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Icon className="h-3.5 w-3.5 text-accent" />
+        {label}
+      </p>
+      <p className="text-2xl font-bold text-foreground">{value}</p>
+    </Card>
+  );
+}
+
+interface IntelligenceReportProps {
+  report: SummarizeScanHistoryOutput;
+}
+
+export function IntelligenceReport({ report }: IntelligenceReportProps) {
+  return (
+    <div className="space-y-5 animate-in fade-in duration-700">
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard icon={Car} label="Unique vehicles" value={String(report.uniqueVehicles)} />
+        <StatCard icon={Repeat} label="Repeat visitors" value={String(report.repeatVisitors.length)} />
+        <StatCard
+          icon={Clock}
+          label="Average dwell"
+          value={report.averageDwellMinutes === null ? "—" : `${report.averageDwellMinutes} min`}
+        />
+        <StatCard
+          icon={Clock}
+          label="Peak hour"
+          value={report.peakHours.length > 0 ? formatHour(report.peakHours[0]) : "—"}
+        />
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">Scans by hour</h3>
+        <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+          <BarChart data={report.scansByHour}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={5} tickFormatter={formatHour} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload[0]?.payload.hour)} />}
+            />
+            <Bar dataKey="scans" fill="var(--color-scans)" radius={3} />
+          </BarChart>
+        </ChartContainer>
+      </section>
+
+      {report.repeatVisitors.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">Repeat visitors</h3>
+          <div className="space-y-1">
+            {report.repeatVisitors.slice(0, 5).map((visitor) => (
+              <div key={visitor.plateNumber} className="flex items-center justify-between text-sm">
+                <span className="font-mono text-accent">{visitor.plateNumber}</span>
+                <span className="text-muted-foreground">{visitor.visits} visits</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h3 className="flex items-center gap-2 text-sm font-semibold">
+          <AlertTriangle className="h-4 w-4 text-accent" />
+          Anomalies
+        </h3>
+        {report.anomalies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing unusual found.</p>
+        ) : (
+          report.anomalies.map((anomaly, i) => (
+            <div key={i} className="flex items-start gap-3 text-sm">
+              <Badge variant="outline" className={cn("shrink-0 capitalize", SEVERITY_STYLES[anomaly.severity])}>
+                {anomaly.severity}
+              </Badge>
+              <p className="text-foreground/90">
+                {anomaly.plateNumber && <span className="font-mono text-accent mr-2">{anomaly.plateNumber}</span>}
+                {anomaly.description}
+              </p>
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">Summary</h3>
+        <p className="whitespace-pre-wrap text-sm leading-relaxed text-foreground/90">{report.summary}</p>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CloudOff, RotateCcw, ScanLine, X } from "lucide-react";
+import { MAX_OCR_ATTEMPTS, ocrQueueRepository, type PendingCapture } from "@/lib/ocr-queue";
+import { usePendingCaptures } from "@/hooks/use-pending-captures";
+import { useToast } from "@/hooks/use-toast";
+
+function CaptureThumbnail({ frame }: { frame: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(frame);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [frame]);
+
+  if (!url) return null;
+  return <img src={url} alt="Queued capture" className="h-16 w-24 shrink-0 rounded-xl border border-white/10 object-cover" />;
+}
+
+function captureStatus(capture: PendingCapture) {
+  if (capture.attempts >= MAX_OCR_ATTEMPTS) return `OCR failed: ${capture.lastError ?? "unknown error"}`;
+  if (capture.attempts > 0) return `Retrying after ${capture.attempts} failed ${capture.attempts === 1 ? "attempt" : "attempts"}`;
+  return "Waiting for a connection";
+}
+
+/** Captures taken offline that the Log will fill in once OCR has read them. */
+export function PendingCaptures() {
+  const captures = usePendingCaptures();
+  const { toast } = useToast();
+
+  if (captures.length === 0) return null;
+
+  const act = (action: Promise<void>) => {
+    action.catch(() => {
+      toast({ title: "Update Failed", variant: "destructive" });
+    });
+  };
+
+  return (
+    <div className="space-y-3 px-2">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CloudOff className="h-4 w-4" />
+        {captures.length} {captures.length === 1 ? "capture" : "captures"} awaiting OCR
+      </div>
+      {captures.map((capture) => {
+        const gaveUp = capture.attempts >= MAX_OCR_ATTEMPTS;
+        return (
+          <Card key={capture.id} className="bg-card/40 border-dashed border-white/10 p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-5 min-w-0">
+                {capture.frames[0] ? (
+                  <CaptureThumbnail frame={capture.frames[0]} />
+                ) : (
+                  <ScanLine className="h-7 w-7 text-muted-foreground" />
+                )}
+                <div className="space-y-1 min-w-0">
+                  <Badge variant="secondary" className="bg-amber-500/15 text-amber-300 border-amber-500/40">
+                    Awaiting OCR
+                  </Badge>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(capture.capturedAt), "MMM d, yyyy • h:mm a")}
+                  </p>
+                  <p className={gaveUp ? "text-xs text-destructive truncate" : "text-xs text-muted-foreground truncate"}>
+                    {captureStatus(capture)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                {gaveUp && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Retry OCR"
+                    onClick={() => act(ocrQueueRepository.retry(capture.id))}
+                  >
+                    <RotateCcw className="h-4 w-4 text-accent" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Discard capture"
+                  onClick={() => act(ocrQueueRepository.delete(capture.id))}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
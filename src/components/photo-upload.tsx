@@ -0,0 +1,377 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Check, ImageUp, Loader2, RotateCcw, Save, X } from "lucide-react";
+import { blobToDataUri, downscaleImage } from "@/lib/evidence";
+import { readCaptureTime } from "@/lib/exif";
+import { getPlateRegion } from "@/lib/plate-formats";
+import { matchPlate } from "@/lib/plate-matching";
+import { recognizeCapture } from "@/lib/plate-recognition";
+import { loadScanSettings } from "@/lib/scan-settings";
+import { type PlateListEntry, type PlateRead } from "@/lib/types";
+import { usePlateLists } from "@/hooks/use-plate-lists";
+import { useToast } from "@/hooks/use-toast";
+import { PossibleCloneBadge, VerdictBadge } from "./verdict-badge";
+import { ZonePicker } from "./zone-picker";
+import { cn } from "@/lib/utils";
+
+// Longest edge of the copy sent for OCR.
+const OCR_MAX_EDGE = 1920;
+// Longest edge of the evidence copy. Uploads can be PNG, HEIC or huge, while
+// evidence storage only takes JPEGs under 10 MB, which this size stays well within.
+const EVIDENCE_MAX_EDGE = 3072;
+
+type UploadStatus = "waiting" | "reading" | "read" | "failed";
+
+/** Where a photo's capture time came from; only the file date is a guess. */
+type TimeSource = "photo" | "operator" | "file";
+
+type Upload = {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  plates: PlateRead[];
+  /** Indexes of the plates to save. */
+  selected: Set<number>;
+  takenAt: Date;
+  timeSource: TimeSource;
+  /** Where the photo was taken; unset until the operator picks a zone. */
+  zoneId: string | null;
+  error?: string;
+};
+
+export type UploadedPhoto = {
+  takenAt: string;
+  fileName: string;
+  zoneId: string | null;
+  /** False when the time is the file's date, which copies and downloads reset. */
+  timeConfirmed: boolean;
+};
+
+interface PhotoUploadProps {
+  /** Logs the chosen plates from one photo under the time it was taken. Resolves false if saving failed. */
+  onSave: (plates: PlateRead[], photo: UploadedPhoto) => Promise<boolean>;
+}
+
+async function readUpload(file: File, at: Date, listEntries: PlateListEntry[]) {
+  const settings = loadScanSettings();
+  const capturedAt = await readCaptureTime(file).catch(() => null);
+  const original = await blobToDataUri(file);
+  const [frame, evidence] = await Promise.all([
+    downscaleImage(original, OCR_MAX_EDGE),
+    downscaleImage(original, EVIDENCE_MAX_EDGE),
+  ]);
+  const plates = await recognizeCapture([frame], {
+    region: getPlateRegion(settings.regionId),
+    quorum: settings.quorum,
+    policy: settings.ocrPolicy,
+    listEntries,
+    at: capturedAt ?? at,
+  });
+  // Bounding boxes are fractions of the image, so they hold for the evidence copy too.
+  return { plates: plates.map((plate) => ({ ...plate, photoDataUri: evidence })), capturedAt };
+}
+
+function PhotoThumbnail({ file }: { file: File }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  if (!url) return null;
+  return <img src={url} alt={file.name} className="h-20 w-28 shrink-0 rounded-xl border border-white/10 object-cover" />;
+}
+
+/**
+ * Reads plates from photos taken elsewhere, one at a time, and lets the
+ * operator pick which reads to log. Each scan keeps a full-size JPEG copy of
+ * its photo as evidence. The capture time comes from the photo's metadata or the operator,
+ * and the zone is never assumed from where the operator is now.
+ */
+export function PhotoUpload({ onSave }: PhotoUploadProps) {
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const readingRef = useRef(false);
+  const listEntries = usePlateLists();
+  const { toast } = useToast();
+
+  const update = (id: string, change: Partial<Upload>) => {
+    setUploads((prev) => prev.map((upload) => (upload.id === id ? { ...upload, ...change } : upload)));
+  };
+
+  // Reads the next waiting photo whenever none is being read.
+  useEffect(() => {
+    if (readingRef.current) return;
+    const next = uploads.find((upload) => upload.status === "waiting");
+    if (!next) return;
+
+    readingRef.current = true;
+    update(next.id, { status: "reading" });
+    readUpload(next.file, next.takenAt, listEntries)
+      .then(
+        ({ plates, capturedAt }): Partial<Upload> => ({
+          status: "read",
+          plates,
+          selected: new Set(plates.map((_, i) => i)),
+          // A time the operator already set on an earlier attempt is kept.
+          ...(capturedAt && next.timeSource === "file" && { takenAt: capturedAt, timeSource: "photo" as const }),
+        }),
+        (): Partial<Upload> => ({
+          status: "failed",
+          error: navigator.onLine ? "Could not read this photo." : "No connection. Retry once back online.",
+        })
+      )
+      .then((change) => {
+        readingRef.current = false;
+        update(next.id, change);
+      });
+  }, [uploads, listEntries]);
+
+  const addFiles = (files: FileList | null) => {
+    const images = Array.from(files ?? []).filter((file) => file.type.startsWith("image/"));
+    if (images.length === 0) return;
+    setUploads((prev) => [
+      ...prev,
+      ...images.map((file) => ({
+        id: Math.random().toString(36).substr(2, 9),
+        file,
+        status: "waiting" as const,
+        plates: [],
+        selected: new Set<number>(),
+        takenAt: new Date(file.lastModified),
+        timeSource: "file" as const,
+        zoneId: null,
+      })),
+    ]);
+  };
+
+  const toggleSelected = (upload: Upload, index: number) => {
+    const selected = new Set(upload.selected);
+    if (selected.has(index)) selected.delete(index);
+    else selected.add(index);
+    update(upload.id, { selected });
+  };
+
+  // Permits and bans have validity dates, so verdicts are redone for the corrected time.
+  const changeTakenAt = (upload: Upload, takenAt: Date) => {
+    const plates = upload.plates.map((plate) => ({
+      ...plate,
+      match: matchPlate(plate.plateNumber, listEntries, { at: takenAt, vehicle: plate.vehicle }),
+    }));
+    update(upload.id, { takenAt, timeSource: "operator", plates });
+  };
+
+  const remove = (id: string) => {
+    setUploads((prev) => prev.filter((upload) => upload.id !== id));
+  };
+
+  const toSave = uploads.filter((upload) => upload.status === "read" && upload.selected.size > 0);
+  const plateCount = toSave.reduce((sum, upload) => sum + upload.selected.size, 0);
+  const finished = uploads.filter((upload) => upload.status === "read" || upload.status === "failed").length;
+  const isReading = finished < uploads.length;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved: string[] = [];
+    for (const upload of toSave) {
+      const plates = upload.plates.filter((_, i) => upload.selected.has(i));
+      const ok = await onSave(plates, {
+        takenAt: upload.takenAt.toISOString(),
+        fileName: upload.file.name,
+        zoneId: upload.zoneId,
+        timeConfirmed: upload.timeSource !== "file",
+      });
+      if (!ok) break;
+      saved.push(upload.id);
+    }
+    setUploads((prev) => prev.filter((upload) => !saved.includes(upload.id)));
+    setIsSaving(false);
+    if (saved.length > 0) {
+      toast({
+        title: "Scans Saved",
+        description: `Plates from ${saved.length} ${saved.length === 1 ? "photo" : "photos"} added to the log.`,
+      });
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4 pb-28">
+      <Label
+        htmlFor="photo-upload"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={cn(
+          "flex flex-col items-center justify-center gap-3 rounded-xl border border-dashed border-white/20 p-10 cursor-pointer hover:border-accent/50",
+          isDragging && "border-accent"
+        )}
+      >
+        <ImageUp className="h-8 w-8 text-accent" />
+        <span className="text-muted-foreground">Choose or drop photos of plates</span>
+      </Label>
+      <Input
+        id="photo-upload"
+        type="file"
+        accept="image/*"
+        multiple
+        className="sr-only"
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+
+      {uploads.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>
+              {isReading ? `Reading ${Math.min(finished + 1, uploads.length)} of ${uploads.length}` : `${uploads.length} read`}
+            </span>
+            <button className="hover:text-foreground" onClick={() => setUploads([])} disabled={isSaving}>
+              Clear all
+            </button>
+          </div>
+          <Progress value={(finished / uploads.length) * 100} className="h-2" />
+        </div>
+      )}
+
+      {uploads.map((upload) => (
+        <Card key={upload.id} className="bg-card/40 border-white/10 p-4">
+          <div className="flex gap-4">
+            <PhotoThumbnail file={upload.file} />
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <p className="min-w-0 text-sm font-semibold truncate">{upload.file.name}</p>
+                <div className="flex shrink-0">
+                  {upload.status === "failed" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Retry photo"
+                      onClick={() => update(upload.id, { status: "waiting", error: undefined })}
+                    >
+                      <RotateCcw className="h-4 w-4 text-accent" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove photo"
+                    disabled={upload.status === "reading" || isSaving}
+                    onClick={() => remove(upload.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {(upload.status === "read" || upload.status === "failed") && (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      type="datetime-local"
+                      aria-label="Time taken"
+                      value={format(upload.takenAt, "yyyy-MM-dd'T'HH:mm")}
+                      onChange={(e) => {
+                        if (e.target.value) changeTakenAt(upload, new Date(e.target.value));
+                      }}
+                      className="h-9 w-auto bg-secondary/50 border-white/10 text-xs"
+                    />
+                    {upload.timeSource === "file" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-9 text-xs text-accent"
+                        onClick={() => update(upload.id, { timeSource: "operator" })}
+                      >
+                        <Check className="h-3.5 w-3.5 mr-1" />
+                        Confirm
+                      </Button>
+                    )}
+                    <ZonePicker zoneId={upload.zoneId} onChange={(zoneId) => update(upload.id, { zoneId })} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {upload.timeSource === "photo"
+                      ? "Time from the photo."
+                      : upload.timeSource === "file"
+                        ? "File date, which may not be when the photo was taken."
+                        : "Time set by you."}{" "}
+                    {upload.timeSource === "file" || !upload.zoneId
+                      ? "Overstays are checked once the time is confirmed and a zone is picked."
+                      : "Overstays will be checked."}
+                  </p>
+                </div>
+              )}
+              {upload.status === "waiting" && <p className="text-xs text-muted-foreground">Waiting…</p>}
+              {upload.status === "reading" && (
+                <p className="flex items-center gap-2 text-xs text-accent">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Reading plates…
+                </p>
+              )}
+              {upload.status === "failed" && <p className="text-xs text-destructive">{upload.error}</p>}
+              {upload.status === "read" && upload.plates.length === 0 && (
+                <p className="text-xs text-muted-foreground">No plate found.</p>
+              )}
+              {upload.plates.map((plate, i) => (
+                <label
+                  key={i}
+                  className="flex items-center gap-3 bg-black/40 px-3 py-2 rounded-xl border border-white/10 cursor-pointer"
+                >
+                  <Checkbox checked={upload.selected.has(i)} onCheckedChange={() => toggleSelected(upload, i)} />
+                  <span className="flex-1 font-mono font-bold text-lg tracking-tight text-accent truncate">
+                    {plate.plateNumber}
+                  </span>
+                  {plate.formatValid === false && (
+                    <span className="text-xs font-bold text-destructive" title="Unrecognised plate format">
+                      ?
+                    </span>
+                  )}
+                  {plate.match?.vehicleMismatches ? (
+                    <PossibleCloneBadge mismatches={plate.match.vehicleMismatches} className="px-2 text-[10px]" />
+                  ) : plate.match && (
+                    <VerdictBadge verdict={plate.match.verdict} fuzzy={plate.match.fuzzy} className="px-2 text-[10px]" />
+                  )}
+                  <span className="text-xs text-muted-foreground">{Math.round(plate.confidence * 100)}%</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </Card>
+      ))}
+
+      {toSave.length > 0 && (
+        <div className="sticky bottom-24 flex justify-center">
+          <Button className="bg-accent text-accent-foreground shadow-2xl" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save {plateCount} {plateCount === 1 ? "plate" : "plates"}
+            {isReading && (
+              <Badge variant="secondary" className="ml-2 text-[10px]">
+                {uploads.length - finished} still reading
+              </Badge>
+            )}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, Trash2, ListChecks, Calendar, Car, FileUp } from "lucide-react";
+import { listRepository } from "@/lib/list-repository";
+import { compactPlate } from "@/lib/plate-formats";
+import { isEntryActive } from "@/lib/plate-matching";
+import {
+  BODY_TYPES,
+  describeVehicle,
+  VEHICLE_ATTRIBUTE_NAMES,
+  type ExpectedVehicle,
+} from "@/lib/vehicle-attributes";
+import { type PlateListEntry, type PlateListKind } from "@/lib/types";
+import { usePlateLists } from "@/hooks/use-plate-lists";
+import { useToast } from "@/hooks/use-toast";
+import { VerdictBadge } from "./verdict-badge";
+import { ImportWizard } from "./import-wizard";
+
+const LIST_LABELS: Record<PlateListKind, string> = {
+  permit: "Permits",
+  watch: "Watchlist",
+  banned: "Banned",
+};
+
+type EntryDraft = {
+  plateNumber: string;
+  list: PlateListKind;
+  validFrom: string;
+  validUntil: string;
+  notes: string;
+  expectedVehicle: ExpectedVehicle;
+};
+
+const ANY_BODY_TYPE = "any";
+
+const emptyDraft = (list: PlateListKind): EntryDraft => ({
+  plateNumber: "",
+  list,
+  validFrom: "",
+  validUntil: "",
+  notes: "",
+  expectedVehicle: {},
+});
+
+function cleanExpectedVehicle(expected: ExpectedVehicle): ExpectedVehicle | undefined {
+  const cleaned: ExpectedVehicle = {};
+  VEHICLE_ATTRIBUTE_NAMES.forEach((name) => {
+    const value = expected[name]?.trim();
+    if (value) cleaned[name] = value;
+  });
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+}
+
+function formatValidity(entry: PlateListEntry) {
+  if (!entry.validFrom && !entry.validUntil) return "No expiry";
+  const from = entry.validFrom ? format(new Date(entry.validFrom), "MMM d, yyyy") : "…";
+  const until = entry.validUntil ? format(new Date(entry.validUntil), "MMM d, yyyy") : "…";
+  return `${from} – ${until}`;
+}
+
+export function PlateLists() {
+  const entries = usePlateLists();
+  const [activeList, setActiveList] = useState<PlateListKind>("permit");
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { toast } = useToast();
+
+  const visible = entries
+    .filter((entry) => entry.list === activeList)
+    .sort((a, b) => a.plateNumber.localeCompare(b.plateNumber));
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const plateNumber = compactPlate(draft.plateNumber);
+    if (!plateNumber) return;
+    try {
+      await listRepository.put([
+        {
+          id: Math.random().toString(36).substr(2, 9),
+          plateNumber,
+          list: draft.list,
+          validFrom: draft.validFrom || undefined,
+          validUntil: draft.validUntil || undefined,
+          notes: draft.notes.trim() || undefined,
+          expectedVehicle: cleanExpectedVehicle(draft.expectedVehicle),
+          createdAt: new Date().toISOString(),
+        },
+      ]);
+      setActiveList(draft.list);
+      setDraft(null);
+    } catch (e) {
+      toast({ title: "Save Failed", variant: "destructive" });
+    }
+  };
+
+  const removeEntry = (id: string) => {
+    listRepository.delete(id).catch(() => {
+      toast({ title: "Delete Failed", variant: "destructive" });
+    });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 pb-32">
+      <div className="flex items-center justify-between sticky top-0 bg-background/95 backdrop-blur-sm z-10 py-4 px-2">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Lists</h2>
+          <p className="text-muted-foreground text-sm">
+            {entries.length} {entries.length === 1 ? "vehicle" : "vehicles"} listed
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            aria-label="Import"
+            onClick={() => setIsImportOpen(true)}
+            className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+          >
+            <FileUp className="h-4 w-4 text-accent" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft(emptyDraft(activeList))}
+            className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+          >
+            <Plus className="h-4 w-4 mr-2 text-accent" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <Tabs value={activeList} onValueChange={(value) => setActiveList(value as PlateListKind)} className="px-2">
+        <TabsList className="w-full">
+          {(Object.keys(LIST_LABELS) as PlateListKind[]).map((list) => (
+            <TabsTrigger key={list} value={list} className="flex-1">
+              {LIST_LABELS[list]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center space-y-4">
+          <div className="bg-secondary/50 p-6 rounded-full border border-white/5">
+            <ListChecks className="h-10 w-10 text-muted-foreground" />
+          </div>
+          <p className="text-muted-foreground">No vehicles on this list.</p>
+        </div>
+      ) : (
+        <div className="grid gap-3 px-2">
+          {visible.map((entry) => {
+            const active = isEntryActive(entry, new Date());
+            return (
+              <Card key={entry.id} className="bg-card/40 border-white/5 p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-xl font-mono font-bold tracking-tight text-accent">{entry.plateNumber}</p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Calendar className="h-3 w-3" />
+                      {formatValidity(entry)}
+                    </div>
+                    {entry.expectedVehicle && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Car className="h-3 w-3" />
+                        {describeVehicle(entry.expectedVehicle)}
+                      </div>
+                    )}
+                    {entry.notes && <p className="text-sm text-foreground/80 truncate">{entry.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <VerdictBadge
+                      verdict={active ? entry.list : entry.list === "permit" ? "expired" : "unlisted"}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Remove ${entry.plateNumber}`}
+                      onClick={() => removeEntry(entry.id)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ImportWizard target="permits" open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="bg-card border-accent/20 max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-accent">Add vehicle</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="list-plate">Plate</Label>
+                <Input
+                  id="list-plate"
+                  className="font-mono uppercase"
+                  value={draft.plateNumber}
+                  onChange={(e) => setDraft({ ...draft, plateNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>List</Label>
+                <Select
+                  value={draft.list}
+                  onValueChange={(list) => setDraft({ ...draft, list: list as PlateListKind })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LIST_LABELS) as PlateListKind[]).map((list) => (
+                      <SelectItem key={list} value={list}>
+                        {LIST_LABELS[list]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="list-from">Valid from</Label>
+                  <Input
+                    id="list-from"
+                    type="date"
+                    value={draft.validFrom}
+                    onChange={(e) => setDraft({ ...draft, validFrom: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="list-until">Valid until</Label>
+                  <Input
+                    id="list-until"
+                    type="date"
+                    value={draft.validUntil}
+                    onChange={(e) => setDraft({ ...draft, validUntil: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Expected vehicle</Label>
+                <p className="text-xs text-muted-foreground">
+                  A confident read that contradicts these is flagged as a possible cloned plate.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    aria-label="Colour"
+                    placeholder="Colour"
+                    value={draft.expectedVehicle.colour ?? ""}
+                    onChange={(e) =>
+                      setDraft({ ...draft, expectedVehicle: { ...draft.expectedVehicle, colour: e.target.value } })
+                    }
+                  />
+                  <Select
+                    value={draft.expectedVehicle.bodyType ?? ANY_BODY_TYPE}
+                    onValueChange={(bodyType) =>
+                      setDraft({
+                        ...draft,
+                        expectedVehicle: {
+                          ...draft.expectedVehicle,
+                          bodyType: bodyType === ANY_BODY_TYPE ? undefined : bodyType,
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger aria-label="Body type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_BODY_TYPE}>Any body type</SelectItem>
+                      {BODY_TYPES.map((bodyType) => (
+                        <SelectItem key={bodyType} value={bodyType} className="capitalize">
+                          {bodyType}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label="Make"
+                    placeholder="Make"
+                    value={draft.expectedVehicle.make ?? ""}
+                    onChange={(e) =>
+                      setDraft({ ...draft, expectedVehicle: { ...draft.expectedVehicle, make: e.target.value } })
+                    }
+                  />
+                  <Input
+                    aria-label="Model"
+                    placeholder="Model"
+                    value={draft.expectedVehicle.model ?? ""}
+                    onChange={(e) =>
+                      setDraft({ ...draft, expectedVehicle: { ...draft.expectedVehicle, model: e.target.value } })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="list-notes">Notes</Label>
+                <Textarea
+                  id="list-notes"
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-accent text-accent-foreground"
+              onClick={saveDraft}
+              disabled={!draft || compactPlate(draft.plateNumber).length === 0}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { History, Plus, Trash2, X } from "lucide-react";
+import { scanRepository, type ScanChanges } from "@/lib/scan-repository";
+import { compactPlate, getPlateRegion, normalizePlate } from "@/lib/plate-formats";
+import { matchPlate } from "@/lib/plate-matching";
+import { getOcrEngine } from "@/lib/ocr-engines";
+import { loadScanSettings } from "@/lib/scan-settings";
+import { type ScanEdit, type ScanEditableField, type ScanResult } from "@/lib/types";
+import { usePlateLists } from "@/hooks/use-plate-lists";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const SUGGESTED_TAGS = ["blocking exit", "no permit displayed", "disabled bay", "damaged vehicle"];
+
+const FIELD_LABELS: Record<ScanEditableField, string> = {
+  plateNumber: "Plate",
+  notes: "Notes",
+  tags: "Tags",
+};
+
+type Draft = {
+  plateNumber: string;
+  notes: string;
+  tags: string[];
+};
+
+const toDraft = (scan: ScanResult): Draft => ({
+  plateNumber: scan.plateNumber,
+  notes: scan.notes ?? "",
+  tags: scan.tags ?? [],
+});
+
+function describeEdit(edit: ScanEdit) {
+  return `${FIELD_LABELS[edit.field]}: ${edit.from ?? "none"} → ${edit.to ?? "none"}`;
+}
+
+interface ScanDetailsProps {
+  /** The scan being edited; the dialog is closed while this is null. */
+  scan: ScanResult | null;
+  onClose: () => void;
+  canDelete: boolean;
+}
+
+/** Corrects, annotates and tags a single scan, showing its edit history. */
+export function ScanDetails({ scan, onClose, canDelete }: ScanDetailsProps) {
+  const entries = usePlateLists();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [newTag, setNewTag] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(scan && toDraft(scan));
+    setNewTag("");
+  }, [scan]);
+
+  const addTag = (tag: string) => {
+    const cleaned = tag.trim().toLowerCase();
+    if (!draft || !cleaned || draft.tags.includes(cleaned)) return;
+    setDraft({ ...draft, tags: [...draft.tags, cleaned] });
+    setNewTag("");
+  };
+
+  const save = async () => {
+    if (!scan || !draft) return;
+    const plateNumber = compactPlate(draft.plateNumber);
+    const changes: ScanChanges = {
+      plateNumber,
+      notes: draft.notes.trim() || undefined,
+      tags: draft.tags.length > 0 ? draft.tags : undefined,
+    };
+    // A corrected plate is taken as typed, but is checked against the lists and formats again.
+    if (plateNumber !== scan.plateNumber) {
+      const match = matchPlate(plateNumber, entries, { at: new Date(scan.timestamp), vehicle: scan.vehicle });
+      const { formatValid } = normalizePlate(plateNumber, getPlateRegion(loadScanSettings().regionId));
+      Object.assign(changes, {
+        verdict: match.verdict,
+        listEntryId: match.entry?.id,
+        vehicleMismatches: match.vehicleMismatches,
+        invalidFormat: formatValid ? undefined : true,
+      });
+    }
+
+    setIsSaving(true);
+    try {
+      await scanRepository.update(scan.id, changes, {
+        id: user?.uid,
+        name: user ? user.displayName || user.email || undefined : undefined,
+      });
+      onClose();
+    } catch (e) {
+      toast({ title: "Save Failed", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!scan) return;
+    try {
+      await scanRepository.delete(scan.id);
+      onClose();
+      toast({
+        title: "Scan Deleted",
+        description: `${scan.plateNumber} moved to the trash.`,
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() =>
+              scanRepository.restore([scan.id]).catch(() => {
+                toast({ title: "Undo Failed", variant: "destructive" });
+              })
+            }
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (e) {
+      toast({ title: "Delete Failed", variant: "destructive" });
+    }
+  };
+
+  const originalPlate = scan?.originalPlateNumber ?? scan?.plateNumber;
+
+  return (
+    <Dialog open={scan !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-card border-accent/20 max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-accent">Edit scan</DialogTitle>
+          {scan && (
+            <DialogDescription>
+              {format(new Date(scan.timestamp), "MMM d, yyyy • h:mm:ss a")}
+              {scan.operatorName && ` • ${scan.operatorName}`}
+              {scan.ocrEngine && ` • read by ${getOcrEngine(scan.ocrEngine)?.name ?? scan.ocrEngine}`}
+              {scan.sourceFileName && ` • from ${scan.sourceFileName}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {scan && draft && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scan-plate">Plate</Label>
+              <Input
+                id="scan-plate"
+                className="font-mono uppercase"
+                value={draft.plateNumber}
+                onChange={(e) => setDraft({ ...draft, plateNumber: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                OCR read <span className="font-mono">{originalPlate}</span>
+                {scan.rawPlateNumber && scan.rawPlateNumber !== originalPlate && (
+                  <>
+                    {" "}
+                    (raw <span className="font-mono">{scan.rawPlateNumber}</span>)
+                  </>
+                )}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scan-notes">Notes</Label>
+              <Textarea
+                id="scan-notes"
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scan-tag">Tags</Label>
+              {draft.tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {draft.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+                      {tag}
+                      <button
+                        aria-label={`Remove tag ${tag}`}
+                        onClick={() => setDraft({ ...draft, tags: draft.tags.filter((t) => t !== tag) })}
+                        className="rounded-full p-0.5 hover:bg-white/10"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  id="scan-tag"
+                  placeholder="Add a tag"
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addTag(newTag);
+                    }
+                  }}
+                />
+                <Button variant="outline" size="icon" aria-label="Add tag" onClick={() => addTag(newTag)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {SUGGESTED_TAGS.filter((tag) => !draft.tags.includes(tag)).map((tag) => (
+                  <button
+                    key={tag}
+                    onClick={() => addTag(tag)}
+                    className="rounded-full border border-dashed border-white/20 px-2.5 py-0.5 text-xs text-muted-foreground hover:border-accent/50 hover:text-accent"
+                  >
+                    + {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {scan.edits && scan.edits.length > 0 && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Edit history
+                </Label>
+                <ul className="space-y-2 text-xs">
+                  {[...scan.edits].reverse().map((edit, i) => (
+                    <li key={i} className="rounded-lg bg-secondary/40 p-2">
+                      <p className="text-foreground/90 break-words">{describeEdit(edit)}</p>
+                      <p className="text-muted-foreground">
+                        {format(new Date(edit.at), "MMM d, yyyy • h:mm a")}
+                        {edit.operatorName && ` • ${edit.operatorName}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          {canDelete && (
+            <Button
+              variant="ghost"
+              onClick={remove}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10 sm:mr-auto"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-accent text-accent-foreground"
+            onClick={save}
+            disabled={!draft || isSaving || compactPlate(draft.plateNumber).length === 0}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,31 @@
 "use client";
 
-import { useState } from "react";
-import { type ScanResult } from "./scanner-layout";
+import { useEffect, useState } from "react";
 import { format } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trash2, FileText, Search, Car, Calendar, Info, Loader2 } from "lucide-react";
+import { Trash2, FileText, Search, Car, Calendar, Info, Loader2, MapPin, Map as MapIcon, List, Pencil, Tag, ArchiveRestore, Download, FileUp, TriangleAlert } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { summarizeScanHistory } from "@/ai/flows/summarize-scan-history";
+import { summarizeScanHistory, type SummarizeScanHistoryOutput } from "@/ai/flows/summarize-scan-history";
+import { scanRepository, type ScanQuery } from "@/lib/scan-repository";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
+import { downloadBlob, exportFileName, scansToCsv, scansToJson } from "@/lib/scan-export";
+import { buildScanReportPdf } from "@/lib/scan-report-pdf";
+import { type ScanResult } from "@/lib/types";
+import { useScanHistory } from "@/hooks/use-scan-history";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { useSites, useZoneLabels, useZones } from "@/hooks/use-zones";
+import { useToast } from "@/hooks/use-toast";
+import { describeVehicle } from "@/lib/vehicle-attributes";
+import { PossibleCloneBadge, VerdictBadge } from "./verdict-badge";
+import { ScanMap } from "./scan-map";
+import { EvidenceThumbnail } from "./evidence-viewer";
+import { IntelligenceReport } from "./intelligence-report";
+import { activeFilterCount, describeScanQuery, ScanLogFilters } from "./scan-log-filters";
+import { ScanDetails } from "./scan-details";
+import { TrashBin } from "./trash-bin";
+import { ImportWizard } from "./import-wizard";
+import { PendingCaptures } from "./pending-captures";
 import {
   Dialog,
   DialogContent,
@@ -15,29 +33,209 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// The Intelligence Report reads at most this many of the most recent scans.
+const SUMMARY_SCAN_LIMIT = 500;
+
+// Log rows are fixed-height so the list can be windowed without measuring.
+const ROW_HEIGHT = 164;
+const ROW_GAP = 16;
+
+type ExportFormat = "csv" | "json" | "pdf";
+
+interface ScanCardProps {
+  scan: ScanResult;
+  zoneLabels: Map<string, string>;
+  onEdit?: () => void;
+}
+
+function ScanCard({ scan, zoneLabels, onEdit }: ScanCardProps) {
+  return (
+    <Card className="h-full overflow-hidden bg-card/40 border-white/5 hover:border-accent/30 hover:bg-card/60 transition-colors duration-300 p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-5 min-w-0">
+          <EvidenceThumbnail
+            scan={scan}
+            fallback={
+              <div className="bg-accent/10 p-4 rounded-xl border border-accent/20 group-hover:scale-110 transition-transform">
+                <Car className="text-accent h-7 w-7" />
+              </div>
+            }
+          />
+          <div className="space-y-1 min-w-0">
+            <p className="text-2xl font-mono font-bold tracking-tight text-accent">
+              {scan.plateNumber}
+            </p>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Calendar className="h-3.3 w-3.3" />
+              {format(new Date(scan.timestamp), "MMM d, yyyy • h:mm a")}
+              {scan.originalPlateNumber ? (
+                <span>• corrected from {scan.originalPlateNumber}</span>
+              ) : (
+                scan.confidence !== undefined && <span>• {Math.round(scan.confidence * 100)}% confidence</span>
+              )}
+            </div>
+            {scan.vehicle && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground truncate">
+                <Car className="h-3 w-3 shrink-0" />
+                {describeVehicle(scan.vehicle)}
+              </div>
+            )}
+            {scan.zoneId && zoneLabels.has(scan.zoneId) && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground truncate">
+                <MapPin className="h-3 w-3 shrink-0" />
+                {zoneLabels.get(scan.zoneId)}
+              </div>
+            )}
+            {(scan.tags || scan.notes) && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground truncate">
+                <Tag className="h-3 w-3 shrink-0" />
+                {[scan.tags?.join(", "), scan.notes].filter(Boolean).join(" • ")}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-col items-end gap-2 shrink-0">
+          {scan.vehicleMismatches && scan.vehicleMismatches.length > 0 ? (
+            <PossibleCloneBadge mismatches={scan.vehicleMismatches} />
+          ) : scan.lowConfidence ? (
+            <Badge variant="secondary" className="bg-destructive/10 text-destructive border-destructive/20 px-3">
+              Low confidence
+            </Badge>
+          ) : scan.invalidFormat ? (
+            <Badge variant="secondary" className="bg-destructive/10 text-destructive border-destructive/20 px-3">
+              Check format
+            </Badge>
+          ) : scan.verdict ? (
+            <VerdictBadge verdict={scan.verdict} />
+          ) : (
+            <Badge variant="secondary" className="bg-accent/10 text-accent border-accent/20 px-3">
+              Verified
+            </Badge>
+          )}
+          {onEdit && (
+            <Button variant="ghost" size="icon" aria-label={`Edit ${scan.plateNumber}`} onClick={onEdit}>
+              <Pencil className="h-4 w-4 text-muted-foreground" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
 
 interface ScanHistoryProps {
-  history: ScanResult[];
-  onClear: () => void;
+  /** Omitted when the signed-in role may not clear the log. */
+  onClear?: () => void;
+  canEdit: boolean;
+  canDelete: boolean;
+  canImport: boolean;
 }
 
-export function ScanHistory({ history, onClear }: ScanHistoryProps) {
-  const [summary, setSummary] = useState<string | null>(null);
+export function ScanHistory({ onClear, canEdit, canDelete, canImport }: ScanHistoryProps) {
+  const [query, setQuery] = useState<ScanQuery>({});
+  const [view, setView] = useState<"list" | "map">("list");
+  const zoneLabels = useZoneLabels();
+  const zones = useZones();
+  const sites = useSites();
+  const { toast } = useToast();
+  const { scans: history, total, isLoading, error, hasMore, loadMore } = useScanHistory(query);
+  const rows = useVirtualRows(history.length, ROW_HEIGHT);
+  const isFiltered = Boolean(query.query) || activeFilterCount(query) > 0;
+  const [report, setReport] = useState<SummarizeScanHistoryOutput | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
   const [isSummarizing, setIsSummarizing] = useState(false);
   const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  const [editing, setEditing] = useState<ScanResult | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  // Records the Clear confirmation would remove; null while it is closed.
+  const [clearCount, setClearCount] = useState<number | null>(null);
+
+  // Fetch the next page as the window nears the end of what is loaded.
+  useEffect(() => {
+    if (hasMore && rows.end >= history.length - 5) loadMore();
+  }, [rows.end, history.length, hasMore, loadMore]);
+
+  // Rows already on screen stay; the toast says they may be out of date.
+  useEffect(() => {
+    if (error && history.length > 0) {
+      toast({ title: "Load Failed", description: "Could not refresh the scan log.", variant: "destructive" });
+    }
+  }, [error]);
+
+  // The log may be filtered, but Clear removes everything, so count the whole log.
+  const confirmClear = async () => {
+    try {
+      setClearCount(await scanRepository.count());
+    } catch (e) {
+      toast({ title: "Clear Failed", description: "Could not read the scan log.", variant: "destructive" });
+    }
+  };
+
+  // Exports everything matching the current search and filters, not just the loaded rows.
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const scans = await scanRepository.getPage({ ...query, limit: Infinity });
+      if (exportFormat === "csv") {
+        downloadBlob(new Blob([scansToCsv(scans, zoneLabels)], { type: "text/csv" }), exportFileName("csv"));
+      } else if (exportFormat === "json") {
+        downloadBlob(new Blob([scansToJson(scans)], { type: "application/json" }), exportFileName("json"));
+      } else {
+        const zone = zones.find((z) => z.id === query.zoneId);
+        const siteNames = (zone ? sites.filter((site) => site.id === zone.siteId) : sites).map((site) => site.name);
+        const operatorName = scans.find((scan) => scan.operatorId === query.operatorId)?.operatorName;
+        const pdf = await buildScanReportPdf(scans, {
+          siteName: siteNames.length > 0 ? siteNames.join(", ") : "All sites",
+          filterDescription: describeScanQuery(query, zoneLabels, operatorName),
+          zoneLabels,
+        });
+        downloadBlob(pdf, exportFileName("pdf"));
+      }
+    } catch (e) {
+      toast({ title: "Export Failed", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const handleGenerateSummary = async () => {
-    if (history.length === 0) return;
+    if (total === 0) return;
     setIsSummarizing(true);
     setIsSummaryOpen(true);
+    setReportError(null);
     try {
-      const historyStr = history
-        .map((h) => `${h.plateNumber} at ${format(new Date(h.timestamp), "yyyy-MM-dd HH:mm:ss")}`)
-        .join("\n");
-      const result = await summarizeScanHistory({ scanHistory: historyStr });
-      setSummary(result.summary);
+      const { sort, ...filter } = query;
+      const recent = await scanRepository.getPage({ ...filter, limit: SUMMARY_SCAN_LIMIT });
+      const result = await summarizeScanHistory({
+        scans: recent.map((h) => ({
+          plateNumber: h.plateNumber,
+          seenAt: format(new Date(h.timestamp), "yyyy-MM-dd HH:mm:ss"),
+          zone: (h.zoneId && zoneLabels.get(h.zoneId)) || undefined,
+        })),
+      });
+      setReport(result);
     } catch (e) {
-      setSummary("Failed to generate summary. Please try again later.");
+      setReport(null);
+      setReportError("Failed to generate summary. Please try again later.");
     } finally {
       setIsSummarizing(false);
     }
@@ -49,12 +247,21 @@ export function ScanHistory({ history, onClear }: ScanHistoryProps) {
         <div className="animate-in fade-in slide-in-from-left-4 duration-500">
           <h2 className="text-2xl font-bold text-foreground">Scan Log</h2>
           <p className="text-muted-foreground text-sm">
-            {history.length} {history.length === 1 ? "record" : "records"} captured
+            {total} {total === 1 ? "record" : "records"} {isFiltered ? "found" : "captured"}
           </p>
         </div>
         <div className="flex gap-2 animate-in fade-in slide-in-from-right-4 duration-500">
-          {history.length > 0 && (
+          {total > 0 && (
             <>
+              <Button
+                variant="outline"
+                size="sm"
+                aria-label={view === "list" ? "Show map" : "Show list"}
+                onClick={() => setView(view === "list" ? "map" : "list")}
+                className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+              >
+                {view === "list" ? <MapIcon className="h-4 w-4 text-accent" /> : <List className="h-4 w-4 text-accent" />}
+              </Button>
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -64,60 +271,128 @@ export function ScanHistory({ history, onClear }: ScanHistoryProps) {
                 <FileText className="h-4 w-4 mr-2 text-accent" />
                 Analyze
               </Button>
-              <Button variant="ghost" size="sm" onClick={onClear} className="text-destructive hover:text-destructive hover:bg-destructive/10 transition-all">
-                <Trash2 className="h-4 w-4 mr-2" />
-                Clear
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    aria-label="Export"
+                    disabled={isExporting}
+                    className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+                  >
+                    {isExporting ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-accent" />
+                    ) : (
+                      <Download className="h-4 w-4 text-accent" />
+                    )}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => handleExport("csv")}>Export CSV</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => handleExport("json")}>Export JSON</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => handleExport("pdf")}>PDF report</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {onClear && (
+                <Button variant="ghost" size="sm" onClick={confirmClear} className="text-destructive hover:text-destructive hover:bg-destructive/10 transition-all">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              )}
             </>
           )}
+          {canImport && (
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Import scans"
+              onClick={() => setIsImportOpen(true)}
+              className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+            >
+              <FileUp className="h-4 w-4 text-accent" />
+            </Button>
+          )}
+          {(onClear || canDelete) && (
+            <Button
+              variant="outline"
+              size="sm"
+              aria-label="Open trash"
+              onClick={() => setIsTrashOpen(true)}
+              className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+            >
+              <ArchiveRestore className="h-4 w-4 text-accent" />
+            </Button>
+          )}
         </div>
       </div>
 
-      {history.length === 0 ? (
+      <ScanLogFilters query={query} onChange={setQuery} />
+
+      <PendingCaptures />
+
+      {isLoading ? (
+        <div className="flex justify-center py-24">
+          <Loader2 className="animate-spin h-8 w-8 text-accent" />
+        </div>
+      ) : error && history.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-24 text-center space-y-4">
+          <TriangleAlert className="h-12 w-12 text-destructive" />
+          <p className="text-muted-foreground max-w-xs">Could not read the scan log on this device.</p>
+        </div>
+      ) : view === "map" && total > 0 ? (
+        <ScanMap query={query} />
+      ) : history.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-24 text-center space-y-4 animate-in fade-in zoom-in duration-700">
           <div className="bg-secondary/50 p-8 rounded-full border border-white/5 shadow-inner">
             <Search className="h-14 w-14 text-muted-foreground animate-pulse" />
           </div>
           <div className="space-y-2">
-            <h3 className="text-xl font-semibold">No scans yet</h3>
+            <h3 className="text-xl font-semibold">{isFiltered ? "No matching scans" : "No scans yet"}</h3>
             <p className="text-muted-foreground max-w-xs mx-auto">
-              Start by pointing your camera at a vehicle in the Scan tab.
+              {isFiltered
+                ? "Try a shorter search or fewer filters."
+                : "Start by pointing your camera at a vehicle in the Scan tab."}
             </p>
           </div>
         </div>
       ) : (
-        <div className="grid gap-4 px-2">
-          {history.map((scan, index) => (
-            <Card 
-              key={scan.id} 
-              className={`bg-card/40 border-white/5 hover:border-accent/30 hover:bg-card/60 transition-all duration-300 p-4 animate-in fade-in slide-in-from-bottom-8 fill-mode-both stagger-${(index % 3) + 1}`}
+        <div ref={rows.listRef} className="relative mx-2" style={{ height: history.length * ROW_HEIGHT }}>
+          {history.slice(rows.start, rows.end).map((scan, i) => (
+            <div
+              key={scan.id}
+              className="absolute inset-x-0"
+              style={{ top: (rows.start + i) * ROW_HEIGHT, height: ROW_HEIGHT - ROW_GAP }}
             >
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-5">
-                  <div className="bg-accent/10 p-4 rounded-xl border border-accent/20 group-hover:scale-110 transition-transform">
-                    <Car className="text-accent h-7 w-7" />
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-2xl font-mono font-bold tracking-tight text-accent">
-                      {scan.plateNumber}
-                    </p>
-                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      <Calendar className="h-3.3 w-3.3" />
-                      {format(new Date(scan.timestamp), "MMM d, yyyy • h:mm a")}
-                    </div>
-                  </div>
-                </div>
-                <Badge variant="secondary" className="bg-accent/10 text-accent border-accent/20 px-3">
-                  Verified
-                </Badge>
-              </div>
-            </Card>
+              <ScanCard scan={scan} zoneLabels={zoneLabels} onEdit={canEdit ? () => setEditing(scan) : undefined} />
+            </div>
           ))}
         </div>
       )}
 
+      <ScanDetails scan={editing} onClose={() => setEditing(null)} canDelete={canDelete} />
+      {(onClear || canDelete) && <TrashBin open={isTrashOpen} onOpenChange={setIsTrashOpen} />}
+      {canImport && <ImportWizard target="scans" open={isImportOpen} onOpenChange={setIsImportOpen} />}
+
+      <AlertDialog open={clearCount !== null} onOpenChange={(open) => !open && setClearCount(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear the scan log?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {clearCount} {clearCount === 1 ? "record" : "records"} will be moved to the trash. They can be
+              restored for {TRASH_RETENTION_DAYS} days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onClear} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Clear {clearCount} {clearCount === 1 ? "record" : "records"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Dialog open={isSummaryOpen} onOpenChange={setIsSummaryOpen}>
-        <DialogContent className="bg-card border-accent/20 max-w-md animate-in zoom-in-95 duration-300">
+        <DialogContent className="bg-card border-accent/20 max-w-lg max-h-[90vh] overflow-y-auto animate-in zoom-in-95 duration-300">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-3 text-accent text-xl">
               <div className="p-2 bg-accent/10 rounded-lg">
@@ -139,8 +414,10 @@ export function ScanHistory({ history, onClear }: ScanHistoryProps) {
                 <Loader2 className="animate-spin h-8 w-8 text-accent" />
                 <p className="text-xs text-muted-foreground tracking-widest uppercase">Analyzing patterns...</p>
               </div>
+            ) : reportError ? (
+              <div className="whitespace-pre-wrap animate-in fade-in duration-700">{reportError}</div>
             ) : (
-              <div className="whitespace-pre-wrap animate-in fade-in duration-700">{summary}</div>
+              report && <IntelligenceReport report={report} />
             )}
           </div>
           <div className="flex justify-end mt-6">
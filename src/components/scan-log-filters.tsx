@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { endOfDay, format, startOfDay } from "date-fns";
+import { type DateRange } from "react-day-picker";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Search, SlidersHorizontal } from "lucide-react";
+import { scanRepository, type ConfidenceBand, type ScanQuery, type ScanSort } from "@/lib/scan-repository";
+import { type ListVerdict } from "@/lib/types";
+import { useZoneLabels } from "@/hooks/use-zones";
+
+const ANY = "any";
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SORT_LABELS: Record<ScanSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  plate: "Plate A–Z",
+  confidence: "Least confident first",
+};
+
+const VERDICT_LABELS: Record<ListVerdict, string> = {
+  banned: "Banned",
+  watch: "Watchlist",
+  permit: "Permit",
+  expired: "Permit expired",
+  unlisted: "Not listed",
+};
+
+const CONFIDENCE_LABELS: Record<ConfidenceBand, string> = {
+  high: "High (90%+)",
+  medium: "Medium (60–90%)",
+  low: "Low (under 60%)",
+};
+
+/** How many filters beyond the search box are narrowing the log. */
+export function activeFilterCount(query: ScanQuery) {
+  return [query.zoneId, query.from || query.to, query.operatorId, query.verdict, query.confidence].filter(Boolean).length;
+}
+
+/** One-line summary of the search and filters, for export headers. */
+export function describeScanQuery(query: ScanQuery, zoneLabels: Map<string, string>, operatorName?: string) {
+  const day = (iso: string) => format(new Date(iso), "MMM d, yyyy");
+  const parts = [
+    query.query && `plate matching "${query.query}"`,
+    (query.from || query.to) && `${query.from ? day(query.from) : "start"} to ${query.to ? day(query.to) : "now"}`,
+    query.zoneId && (zoneLabels.get(query.zoneId) ?? "unknown zone"),
+    query.operatorId && `operator ${operatorName ?? query.operatorId}`,
+    query.verdict && VERDICT_LABELS[query.verdict],
+    query.confidence && `confidence ${CONFIDENCE_LABELS[query.confidence].toLowerCase()}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "none, all scans";
+}
+
+interface FilterSelectProps<T extends string> {
+  label: string;
+  value: T | undefined;
+  labels: Record<T, string>;
+  anyLabel: string;
+  onChange: (value: T | undefined) => void;
+}
+
+function FilterSelect<T extends string>({ label, value, labels, anyLabel, onChange }: FilterSelectProps<T>) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value ?? ANY} onValueChange={(next) => onChange(next === ANY ? undefined : (next as T))}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{anyLabel}</SelectItem>
+          {(Object.keys(labels) as T[]).map((key) => (
+            <SelectItem key={key} value={key}>
+              {labels[key]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface ScanLogFiltersProps {
+  query: ScanQuery;
+  onChange: (query: ScanQuery) => void;
+}
+
+export function ScanLogFilters({ query, onChange }: ScanLogFiltersProps) {
+  const [search, setSearch] = useState(query.query ?? "");
+  const [operators, setOperators] = useState<Record<string, string>>({});
+  const zoneLabels = useZoneLabels();
+  const filterCount = activeFilterCount(query);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if ((query.query ?? "") !== search) onChange({ ...query, query: search || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, query]);
+
+  const loadOperators = () => {
+    scanRepository
+      .listOperators()
+      .then((list) => setOperators(Object.fromEntries(list.map((operator) => [operator.id, operator.name]))))
+      .catch(() => {});
+  };
+
+  const range: DateRange | undefined = query.from
+    ? { from: new Date(query.from), to: query.to ? new Date(query.to) : undefined }
+    : undefined;
+
+  const setRange = (next: DateRange | undefined) =>
+    onChange({
+      ...query,
+      from: next?.from && startOfDay(next.from).toISOString(),
+      to: next?.from && endOfDay(next.to ?? next.from).toISOString(),
+    });
+
+  return (
+    <div className="flex gap-2 px-2">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search plates"
+          aria-label="Search plates"
+          className="pl-9 font-mono uppercase placeholder:font-body placeholder:normal-case bg-secondary/50 border-white/10"
+        />
+      </div>
+      <Sheet onOpenChange={(open) => open && loadOperators()}>
+        <SheetTrigger asChild>
+          <Button variant="outline" className="bg-secondary/50 border-white/10 gap-2">
+            <SlidersHorizontal className="h-4 w-4 text-accent" />
+            {filterCount > 0 && <Badge className="h-5 px-1.5">{filterCount}</Badge>}
+          </Button>
+        </SheetTrigger>
+        <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Filter and sort</SheetTitle>
+            <SheetDescription>
+              {query.from
+                ? `${format(new Date(query.from), "MMM d, yyyy")} – ${format(new Date(query.to ?? query.from), "MMM d, yyyy")}`
+                : "All dates"}
+            </SheetDescription>
+          </SheetHeader>
+          <div className="grid gap-4 py-4 sm:grid-cols-2">
+            <div className="flex justify-center sm:row-span-3">
+              <Calendar mode="range" selected={range} onSelect={setRange} disabled={{ after: new Date() }} />
+            </div>
+            <FilterSelect
+              label="Sort"
+              value={query.sort}
+              labels={SORT_LABELS}
+              anyLabel={SORT_LABELS.newest}
+              onChange={(sort) => onChange({ ...query, sort: sort === "newest" ? undefined : sort })}
+            />
+            {zoneLabels.size > 0 && (
+              <FilterSelect
+                label="Zone"
+                value={query.zoneId}
+                labels={Object.fromEntries(zoneLabels)}
+                anyLabel="All zones"
+                onChange={(zoneId) => onChange({ ...query, zoneId })}
+              />
+            )}
+            {Object.keys(operators).length > 0 && (
+              <FilterSelect
+                label="Operator"
+                value={query.operatorId}
+                labels={operators}
+                anyLabel="All operators"
+                onChange={(operatorId) => onChange({ ...query, operatorId })}
+              />
+            )}
+            <FilterSelect
+              label="List status"
+              value={query.verdict}
+              labels={VERDICT_LABELS}
+              anyLabel="Any status"
+              onChange={(verdict) => onChange({ ...query, verdict })}
+            />
+            <FilterSelect
+              label="Confidence"
+              value={query.confidence}
+              labels={CONFIDENCE_LABELS}
+              anyLabel="Any confidence"
+              onChange={(confidence) => onChange({ ...query, confidence })}
+            />
+          </div>
+          <SheetFooter>
+            <Button
+              variant="ghost"
+              disabled={filterCount === 0 && !query.sort}
+              onClick={() => onChange({ query: query.query })}
+            >
+              Reset filters
+            </Button>
+          </SheetFooter>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Loader2, MapPinOff, Repeat, TriangleAlert } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { useScanHistory } from "@/hooks/use-scan-history";
+import { type ScanQuery } from "@/lib/scan-repository";
+import { clusterSightings, metersPerPixel, projectMercator, TILE_SIZE, type Sighting } from "@/lib/geo";
+import { cn } from "@/lib/utils";
+
+// A {z}/{x}/{y} tile template, e.g. a self-hosted tile server. Without one the map is plain SVG.
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+const TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_ATTRIBUTION;
+
+// The map reads at most this many of the most recent scans.
+const MAP_SCAN_LIMIT = 1000;
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const PADDING = 40;
+const MAX_ZOOM = 18;
+
+/** Fits every sighting into the viewport at the highest zoom that holds them all. */
+function fitView(sightings: Sighting[]) {
+  const points = sightings.map(projectMercator);
+  const minX = Math.min(...points.map((p) => p.x));
+  const maxX = Math.max(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const maxY = Math.max(...points.map((p) => p.y));
+  const fit = Math.min((WIDTH - 2 * PADDING) / (maxX - minX || 1e-9), (HEIGHT - 2 * PADDING) / (maxY - minY || 1e-9));
+  const zoom = Math.max(0, Math.min(MAX_ZOOM, Math.floor(Math.log2(fit))));
+  const scale = 2 ** zoom;
+  const origin = {
+    x: ((minX + maxX) / 2) * scale - WIDTH / 2,
+    y: ((minY + maxY) / 2) * scale - HEIGHT / 2,
+  };
+  return {
+    zoom,
+    origin,
+    toScreen: (sighting: Sighting) => {
+      const p = projectMercator(sighting);
+      return { x: p.x * scale - origin.x, y: p.y * scale - origin.y };
+    },
+  };
+}
+
+function tilesFor(zoom: number, origin: { x: number; y: number }) {
+  if (!TILE_URL) return [];
+  const count = 2 ** zoom;
+  const tiles = [];
+  for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + WIDTH) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + HEIGHT) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= count) continue;
+      const wrappedX = ((tx % count) + count) % count;
+      tiles.push({
+        key: `${tx}/${ty}`,
+        href: TILE_URL.replace("{z}", String(zoom)).replace("{x}", String(wrappedX)).replace("{y}", String(ty)),
+        x: tx * TILE_SIZE - origin.x,
+        y: ty * TILE_SIZE - origin.y,
+      });
+    }
+  }
+  return tiles;
+}
+
+/** Rounds a distance down to 1, 2 or 5 times a power of ten for the scale bar. */
+function niceDistance(meters: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(meters));
+  const step = [5, 2, 1].find((n) => n * magnitude <= meters) ?? 1;
+  return step * magnitude;
+}
+
+const sightingKey = (sighting: Sighting) => `${sighting.plateNumber}:${sighting.scans[0].id}`;
+
+interface ScanMapProps {
+  query: ScanQuery;
+}
+
+export function ScanMap({ query }: ScanMapProps) {
+  const { scans, isLoading, error } = useScanHistory(query, MAP_SCAN_LIMIT);
+  const sightings = useMemo(() => clusterSightings(scans), [scans]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="animate-spin h-8 w-8 text-accent" />
+      </div>
+    );
+  }
+
+  if (error && scans.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-center space-y-4">
+        <TriangleAlert className="h-12 w-12 text-destructive" />
+        <p className="text-muted-foreground max-w-xs">Could not read the scan log on this device.</p>
+      </div>
+    );
+  }
+
+  if (sightings.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-center space-y-4">
+        <MapPinOff className="h-12 w-12 text-muted-foreground" />
+        <p className="text-muted-foreground max-w-xs">
+          No geotagged scans yet. Turn on Geotag scans in the scan settings.
+        </p>
+      </div>
+    );
+  }
+
+  const { zoom, origin, toScreen } = fitView(sightings);
+  const centerLatitude = sightings.reduce((sum, s) => sum + s.latitude, 0) / sightings.length;
+  const scaleMeters = niceDistance(metersPerPixel(centerLatitude, zoom) * 120);
+  const scaleWidth = scaleMeters / metersPerPixel(centerLatitude, zoom);
+  const current = sightings.find((sighting) => sightingKey(sighting) === selectedKey);
+
+  return (
+    <div className="space-y-4 px-2">
+      <Card className="overflow-hidden bg-card/40 border-white/5">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-black/40" role="img" aria-label="Map of scan locations">
+          <defs>
+            <pattern id="map-grid" width={64} height={64} patternUnits="userSpaceOnUse">
+              <path d="M 64 0 L 0 0 0 64" fill="none" className="stroke-white/5" />
+            </pattern>
+          </defs>
+          <rect width={WIDTH} height={HEIGHT} fill="url(#map-grid)" />
+          {tilesFor(zoom, origin).map((tile) => (
+            <image key={tile.key} href={tile.href} x={tile.x} y={tile.y} width={TILE_SIZE} height={TILE_SIZE} />
+          ))}
+          {sightings.map((sighting) => {
+            const { x, y } = toScreen(sighting);
+            const count = sighting.scans.length;
+            const key = sightingKey(sighting);
+            return (
+              <g
+                key={key}
+                onClick={() => setSelectedKey(key)}
+                className="cursor-pointer"
+              >
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={6 + Math.min(10, (count - 1) * 2)}
+                  className={cn(
+                    count > 1 ? "fill-accent/80" : "fill-primary/80",
+                    key === selectedKey ? "stroke-foreground" : "stroke-background"
+                  )}
+                  strokeWidth={2}
+                />
+                {count > 1 && (
+                  <text x={x} y={y} dy="0.35em" textAnchor="middle" className="fill-accent-foreground text-[10px] font-bold">
+                    {count}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          <g transform={`translate(16 ${HEIGHT - 20})`} className="text-muted-foreground">
+            <line x1={0} x2={scaleWidth} y1={0} y2={0} stroke="currentColor" strokeWidth={2} />
+            <text x={0} y={-6} className="fill-current text-[11px]">
+              {scaleMeters >= 1000 ? `${scaleMeters / 1000} km` : `${scaleMeters} m`}
+            </text>
+          </g>
+        </svg>
+        {TILE_URL && TILE_ATTRIBUTION && (
+          <p className="px-3 py-1 text-[10px] text-muted-foreground text-right">{TILE_ATTRIBUTION}</p>
+        )}
+      </Card>
+
+      {current ? (
+        <Card className="bg-card/40 border-white/5 p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-2xl font-mono font-bold tracking-tight text-accent">{current.plateNumber}</p>
+            {current.scans.length > 1 && (
+              <span className="flex items-center gap-1 text-sm text-accent">
+                <Repeat className="h-4 w-4" />
+                {current.scans.length} sightings
+              </span>
+            )}
+          </div>
+          {current.scans.map((scan) => (
+            <p key={scan.id} className="text-xs text-muted-foreground">
+              {format(new Date(scan.timestamp), "MMM d, yyyy • h:mm a")}
+              {scan.location && ` • ±${Math.round(scan.location.accuracy)} m`}
+            </p>
+          ))}
+        </Card>
+      ) : (
+        <p className="text-xs text-muted-foreground text-center">
+          Tap a marker for its sightings. Larger markers are plates seen repeatedly in the same spot.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings2 } from "lucide-react";
+import { type ScanSettings } from "@/lib/scan-settings";
+import { listPlateRegions } from "@/lib/plate-formats";
+import { OCR_POLICIES, type OcrPolicy } from "@/lib/ocr-engines";
+
+interface ScanSettingsPopoverProps {
+  settings: ScanSettings;
+  onChange: (settings: ScanSettings) => void;
+}
+
+export function ScanSettingsPopover({ settings, onChange }: ScanSettingsPopoverProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          aria-label="Scan settings"
+          className="flex items-center justify-center w-12 h-12 rounded-full bg-secondary/80 border border-white/10 text-accent backdrop-blur-xl active:scale-95 transition-transform"
+        >
+          <Settings2 className="h-5 w-5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="glass-panel w-72 space-y-5">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="geotag" className="text-sm">Geotag scans</Label>
+          <Switch
+            id="geotag"
+            checked={settings.geotag}
+            onCheckedChange={(geotag) => onChange({ ...settings, geotag })}
+          />
+        </div>
+        <div className="space-y-3">
+          <Label className="text-sm">OCR engine</Label>
+          <Select
+            value={settings.ocrPolicy}
+            onValueChange={(ocrPolicy) => onChange({ ...settings, ocrPolicy: ocrPolicy as OcrPolicy })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OCR_POLICIES.map((policy) => (
+                <SelectItem key={policy.id} value={policy.id}>
+                  {policy.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {OCR_POLICIES.find((policy) => policy.id === settings.ocrPolicy)?.description}
+          </p>
+        </div>
+        <div className="space-y-3">
+          <Label className="text-sm">Plate format</Label>
+          <Select value={settings.regionId} onValueChange={(regionId) => onChange({ ...settings, regionId })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {listPlateRegions().map((region) => (
+                <SelectItem key={region.id} value={region.id}>
+                  {region.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-3">
+          <div className="flex justify-between text-sm">
+            <Label>Frames per read</Label>
+            <span className="text-muted-foreground">
+              {settings.burstFrames === 1 ? "Single" : settings.burstFrames}
+            </span>
+          </div>
+          <Slider
+            min={1}
+            max={7}
+            step={1}
+            value={[settings.burstFrames]}
+            onValueChange={([frames]) => onChange({ ...settings, burstFrames: frames })}
+          />
+        </div>
+        {settings.burstFrames > 1 && (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <Label>Agreement required</Label>
+              <span className="text-muted-foreground">{Math.round(settings.quorum * 100)}%</span>
+            </div>
+            <Slider
+              min={50}
+              max={100}
+              step={5}
+              value={[Math.round(settings.quorum * 100)]}
+              onValueChange={([percent]) => onChange({ ...settings, quorum: percent / 100 })}
+            />
+          </div>
+        )}
+        <div className="space-y-3">
+          <div className="flex justify-between text-sm">
+            <Label>Sample every</Label>
+            <span className="text-muted-foreground">{settings.intervalMs / 1000}s</span>
+          </div>
+          <Slider
+            min={1}
+            max={10}
+            step={0.5}
+            value={[settings.intervalMs / 1000]}
+            onValueChange={([seconds]) => onChange({ ...settings, intervalMs: seconds * 1000 })}
+          />
+        </div>
+        <div className="space-y-3">
+          <div className="flex justify-between text-sm">
+            <Label>Ignore repeats for</Label>
+            <span className="text-muted-foreground">{settings.cooldownMs / 60000} min</span>
+          </div>
+          <Slider
+            min={1}
+            max={60}
+            step={1}
+            value={[settings.cooldownMs / 60000]}
+            onValueChange={([minutes]) => onChange({ ...settings, cooldownMs: minutes * 60000 })}
+          />
+        </div>
+        <div className="space-y-3">
+          <div className="flex justify-between text-sm">
+            <Label>Scene change needed</Label>
+            <span className="text-muted-foreground">{Math.round(settings.changeThreshold * 100)}%</span>
+          </div>
+          <Slider
+            min={1}
+            max={30}
+            step={1}
+            value={[Math.round(settings.changeThreshold * 100)]}
+            onValueChange={([percent]) => onChange({ ...settings, changeThreshold: percent / 100 })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
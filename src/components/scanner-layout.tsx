@@ -1,46 +1,173 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { CameraScanner } from "./camera-scanner";
 import { ScanHistory } from "./scan-history";
+import { SyncStatusIndicator } from "./sync-status";
+import { SignIn } from "./sign-in";
+import { UserMenu } from "./user-menu";
+import { PlateLists } from "./plate-lists";
+import { Violations } from "./violations";
+import { ZonePicker } from "./zone-picker";
+import { Dashboard } from "./dashboard";
+import { PhotoUpload, type UploadedPhoto } from "./photo-upload";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Camera, History, Car } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Camera, ImageUp, History, Car, Loader2, ShieldOff, ListChecks, AlarmClock, BarChart3, type LucideIcon } from "lucide-react";
+import { scanRepository } from "@/lib/scan-repository";
+import { recordOverstays } from "@/lib/chalking";
+import { purgeExpiredTrash } from "@/lib/trash";
+import { logPlateReads, type ScanStamp } from "@/lib/scan-logging";
+import { ocrQueueRepository, startOcrQueue } from "@/lib/ocr-queue";
+import { loadScanSettings } from "@/lib/scan-settings";
+import { startScanSync, CLOUD_SITE_ID } from "@/lib/scan-sync";
+import { type GeoFix, type PlateRead } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCurrentZone, useZones } from "@/hooks/use-zones";
 
-export type ScanResult = {
-  id: string;
-  plateNumber: string;
-  timestamp: string;
-  confidence?: number;
-};
+function NavTrigger({ value, icon: Icon, label }: { value: string; icon: LucideIcon; label: string }) {
+  return (
+    <TabsTrigger 
+      value={value} 
+      className="group rounded-full px-4 sm:px-6 data-[state=active]:bg-primary data-[state=active]:text-accent gap-2"
+    >
+      <Icon className="h-4 w-4" />
+      <span className="font-semibold hidden sm:inline group-data-[state=active]:inline">{label}</span>
+    </TabsTrigger>
+  );
+}
 
 export function ScannerLayout() {
-  const [history, setHistory] = useState<ScanResult[]>([]);
+  const { toast } = useToast();
+  const { isEnabled: isAuthEnabled, isLoading: isAuthLoading, user, can } = useAuth();
+  const isSignedOut = isAuthEnabled && !user;
+  const [zoneId, setZoneId] = useCurrentZone();
+  const zones = useZones();
 
   useEffect(() => {
-    const saved = localStorage.getItem("plateseeker_history");
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {}
-    }
+    if (isSignedOut) return;
+    return startScanSync(CLOUD_SITE_ID);
+  }, [isSignedOut]);
+
+  useEffect(() => {
+    if (isSignedOut) return;
+    return startOcrQueue();
+  }, [isSignedOut]);
+
+  useEffect(() => {
+    purgeExpiredTrash().catch(() => {});
   }, []);
 
-  const addToHistory = (plate: string) => {
-    const newEntry: ScanResult = {
-      id: Math.random().toString(36).substr(2, 9),
-      plateNumber: plate.toUpperCase(),
-      timestamp: new Date().toISOString(),
+  const stampFor = (stampZoneId: string | null, location?: GeoFix): ScanStamp => {
+    const zone = zones.find((z) => z.id === stampZoneId);
+    return {
+      operatorId: user?.uid,
+      operatorName: user ? user.displayName || user.email || undefined : undefined,
+      siteId: zone?.siteId,
+      levelId: zone?.levelId,
+      zoneId: zone?.id,
+      location,
     };
-    const updated = [newEntry, ...history];
-    setHistory(updated);
-    localStorage.setItem("plateseeker_history", JSON.stringify(updated));
   };
 
-  const clearHistory = () => {
-    setHistory([]);
-    localStorage.removeItem("plateseeker_history");
+  const currentStamp = (location?: GeoFix) => stampFor(zoneId, location);
+
+  const logScans = async (plates: PlateRead[], timestamp: string, stamp: ScanStamp, checkOverstays = true) => {
+    let newEntries;
+    try {
+      newEntries = await logPlateReads(plates, timestamp, stamp);
+    } catch (e) {
+      toast({
+        title: "Save Failed",
+        description: "Could not write to the scan log.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (!checkOverstays) return true;
+    const violations = await recordOverstays(newEntries).catch(() => []);
+    violations
+      .filter((violation) => violation.status === "open")
+      .forEach((violation) => {
+        toast({
+          title: `Overstay: ${violation.plateNumber}`,
+          description: `${violation.overstayMinutes} min over the time limit.`,
+          variant: "destructive",
+        });
+      });
+    return true;
+  };
+
+  const addToHistory = (plates: PlateRead[], location?: GeoFix) => {
+    logScans(plates, new Date().toISOString(), currentStamp(location));
+  };
+
+  // The device's current position and zone say nothing about where an uploaded
+  // photo was taken, and a guessed time or place would raise false overstays.
+  const addUpload = (plates: PlateRead[], photo: UploadedPhoto) =>
+    logScans(
+      plates,
+      photo.takenAt,
+      { ...stampFor(photo.zoneId), sourceFileName: photo.fileName },
+      photo.timeConfirmed && !!photo.zoneId
+    );
+
+  const queueCapture = (frames: string[], location?: GeoFix) => {
+    const { regionId, quorum, ocrPolicy } = loadScanSettings();
+    ocrQueueRepository.enqueue(frames, { regionId, quorum, ocrPolicy, stamp: currentStamp(location) }).catch(() => {
+      toast({
+        title: "Save Failed",
+        description: "Could not keep the capture for later.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  const restoreScans = (ids: string[]) => {
+    scanRepository.restore(ids).catch(() => {
+      toast({ title: "Undo Failed", variant: "destructive" });
+    });
+  };
+
+  // Cleared scans go to the trash, so the toast can offer to put them straight back.
+  const clearHistory = async () => {
+    try {
+      const ids = await scanRepository.clear();
+      toast({
+        title: "Log Cleared",
+        description: `${ids.length} ${ids.length === 1 ? "record" : "records"} moved to the trash.`,
+        action: (
+          <ToastAction altText="Undo clear" onClick={() => restoreScans(ids)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (e) {
+      toast({
+        title: "Clear Failed",
+        variant: "destructive",
+      });
+    }
   };
 
+  if (isAuthLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <Loader2 className="animate-spin h-10 w-10 text-accent" />
+      </div>
+    );
+  }
+
+  if (isSignedOut) return <SignIn />;
+
+  const canScan = can("scan");
+  const canViewLog = can("viewLog");
+  const canManageLists = can("manageLists");
+  const canViewViolations = can("viewViolations");
+  const canViewDashboard = can("viewDashboard");
+
   return (
     <div className="flex flex-col h-screen overflow-hidden bg-background">
       <header className="p-4 flex items-center justify-between border-b bg-background/80 backdrop-blur-md z-20">
@@ -52,37 +179,79 @@ export function ScannerLayout() {
             ParkConscious
           </h1>
         </div>
+        <div className="flex items-center gap-3">
+          <ZonePicker zoneId={zoneId} onChange={setZoneId} />
+          <SyncStatusIndicator />
+          <UserMenu />
+        </div>
       </header>
 
       <main className="flex-1 relative overflow-hidden">
-        <Tabs defaultValue="scan" className="h-full flex flex-col">
-          <TabsContent value="scan" className="flex-1 m-0 p-0 relative h-full">
-            <CameraScanner onScan={addToHistory} />
-          </TabsContent>
-          
-          <TabsContent value="history" className="flex-1 m-0 p-4 h-full overflow-y-auto">
-            <ScanHistory history={history} onClear={clearHistory} />
-          </TabsContent>
-
-          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30">
-            <TabsList className="bg-secondary/90 backdrop-blur-xl border border-white/5 h-14 p-1 rounded-full shadow-2xl">
-              <TabsTrigger 
-                value="scan" 
-                className="rounded-full px-8 data-[state=active]:bg-primary data-[state=active]:text-accent gap-2"
-              >
-                <Camera className="h-4 w-4" />
-                <span className="font-semibold">Scan</span>
-              </TabsTrigger>
-              <TabsTrigger 
-                value="history" 
-                className="rounded-full px-8 data-[state=active]:bg-primary data-[state=active]:text-accent gap-2"
-              >
-                <History className="h-4 w-4" />
-                <span className="font-semibold">Log</span>
-              </TabsTrigger>
-            </TabsList>
+        {!canScan && !canViewLog ? (
+          <div className="flex h-full flex-col items-center justify-center gap-4 text-center text-muted-foreground">
+            <ShieldOff className="h-12 w-12" />
+            <p>Your account has no access to scanning or the log.</p>
           </div>
-        </Tabs>
+        ) : (
+          <Tabs defaultValue={canScan ? "scan" : "history"} className="h-full flex flex-col">
+            {canScan && (
+              <TabsContent value="scan" className="flex-1 m-0 p-0 relative h-full">
+                <CameraScanner onScan={addToHistory} onQueue={queueCapture} />
+              </TabsContent>
+            )}
+
+            {/* Kept mounted so a batch keeps reading while the operator checks another tab. */}
+            {canScan && (
+              <TabsContent
+                value="upload"
+                forceMount
+                className="flex-1 m-0 p-4 h-full overflow-y-auto data-[state=inactive]:hidden"
+              >
+                <PhotoUpload onSave={addUpload} />
+              </TabsContent>
+            )}
+            
+            {canViewLog && (
+              <TabsContent value="history" className="flex-1 m-0 p-4 h-full overflow-y-auto">
+                <ScanHistory
+                  onClear={can("clearHistory") ? clearHistory : undefined}
+                  canEdit={can("editScans")}
+                  canDelete={can("deleteScans")}
+                  canImport={can("importScans")}
+                />
+              </TabsContent>
+            )}
+
+            {canViewViolations && (
+              <TabsContent value="violations" className="flex-1 m-0 p-4 h-full overflow-y-auto">
+                <Violations canManageZones={can("manageZones")} />
+              </TabsContent>
+            )}
+
+            {canViewDashboard && (
+              <TabsContent value="dashboard" className="flex-1 m-0 p-4 h-full overflow-y-auto">
+                <Dashboard />
+              </TabsContent>
+            )}
+
+            {canManageLists && (
+              <TabsContent value="lists" className="flex-1 m-0 p-4 h-full overflow-y-auto">
+                <PlateLists />
+              </TabsContent>
+            )}
+
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30">
+              <TabsList className="bg-secondary/90 backdrop-blur-xl border border-white/5 h-14 p-1 rounded-full shadow-2xl">
+                {canScan && <NavTrigger value="scan" icon={Camera} label="Scan" />}
+                {canScan && <NavTrigger value="upload" icon={ImageUp} label="Upload" />}
+                {canViewLog && <NavTrigger value="history" icon={History} label="Log" />}
+                {canViewViolations && <NavTrigger value="violations" icon={AlarmClock} label="Violations" />}
+                {canViewDashboard && <NavTrigger value="dashboard" icon={BarChart3} label="Dashboard" />}
+                {canManageLists && <NavTrigger value="lists" icon={ListChecks} label="Lists" />}
+              </TabsList>
+            </div>
+          </Tabs>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,14 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Registers the service worker that caches the app shell for offline use. */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    // Development builds change on every edit, so a cached shell would only get in the way.
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch(() => {});
+  }, []);
+
+  return null;
+}
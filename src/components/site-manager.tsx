@@ -0,0 +1,298 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Building2, Layers, Plus, Timer, Trash2 } from "lucide-react";
+import {
+  formatBayRanges,
+  levelRepository,
+  parseBayRanges,
+  siteRepository,
+  zoneRepository,
+} from "@/lib/zone-repository";
+import { useLevels, useSites, useZones } from "@/hooks/use-zones";
+import { useToast } from "@/hooks/use-toast";
+
+const NO_LEVEL = "none";
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+interface SiteManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SiteManager({ open, onOpenChange }: SiteManagerProps) {
+  const sites = useSites();
+  const levels = useLevels();
+  const zones = useZones();
+  const [siteName, setSiteName] = useState("");
+  const [levelName, setLevelName] = useState("");
+  const [zoneSiteId, setZoneSiteId] = useState<string | null>(null);
+  const [zoneLevelId, setZoneLevelId] = useState(NO_LEVEL);
+  const [zoneName, setZoneName] = useState("");
+  const [bays, setBays] = useState("");
+  const [timeLimit, setTimeLimit] = useState("");
+  const [grace, setGrace] = useState("5");
+  const { toast } = useToast();
+
+  const siteId = zoneSiteId && sites.some((site) => site.id === zoneSiteId) ? zoneSiteId : sites[0]?.id;
+  const siteLevels = levels.filter((level) => level.siteId === siteId).sort((a, b) => a.order - b.order);
+  const bayRanges = parseBayRanges(bays);
+
+  const run = (write: Promise<void>) =>
+    write.catch(() => {
+      toast({ title: "Save Failed", variant: "destructive" });
+    });
+
+  const addSite = () => {
+    if (!siteName.trim()) return;
+    const id = newId();
+    run(siteRepository.put([{ id, name: siteName.trim() }]));
+    setZoneSiteId(id);
+    setSiteName("");
+  };
+
+  const addLevel = () => {
+    if (!siteId || !levelName.trim()) return;
+    run(levelRepository.put([{ id: newId(), siteId, name: levelName.trim(), order: siteLevels.length }]));
+    setLevelName("");
+  };
+
+  const addZone = () => {
+    if (!siteId || !zoneName.trim() || !bayRanges) return;
+    run(
+      zoneRepository.put([
+        {
+          id: newId(),
+          siteId,
+          levelId: zoneLevelId === NO_LEVEL ? undefined : zoneLevelId,
+          name: zoneName.trim(),
+          bays: bayRanges.length > 0 ? bayRanges : undefined,
+          timeLimitMinutes: Number(timeLimit) > 0 ? Number(timeLimit) : undefined,
+          graceMinutes: Math.max(0, Number(grace) || 0),
+        },
+      ])
+    );
+    setZoneName("");
+    setBays("");
+    setTimeLimit("");
+  };
+
+  // Removing a site or level takes everything inside it along.
+  const removeSite = (id: string) => {
+    run(
+      Promise.all([
+        ...zones.filter((zone) => zone.siteId === id).map((zone) => zoneRepository.delete(zone.id)),
+        ...levels.filter((level) => level.siteId === id).map((level) => levelRepository.delete(level.id)),
+        siteRepository.delete(id),
+      ]).then(() => {})
+    );
+  };
+
+  const removeLevel = (id: string) => {
+    run(
+      Promise.all([
+        ...zones.filter((zone) => zone.levelId === id).map((zone) => zoneRepository.delete(zone.id)),
+        levelRepository.delete(id),
+      ]).then(() => {})
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-accent/20 max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-accent">Sites and zones</DialogTitle>
+          <DialogDescription>
+            Plates seen in a timed zone for longer than its limit plus grace raise a violation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {sites.length === 0 && <p className="text-sm text-muted-foreground">No sites yet.</p>}
+          {sites.map((site) => {
+            const ownLevels = levels.filter((level) => level.siteId === site.id).sort((a, b) => a.order - b.order);
+            const ownZones = zones.filter((zone) => zone.siteId === site.id);
+            return (
+              <div key={site.id} className="rounded-xl bg-black/40 border border-white/5 p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="flex items-center gap-2 font-semibold">
+                    <Building2 className="h-4 w-4 text-accent" />
+                    {site.name}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${site.name}`}
+                    onClick={() => removeSite(site.id)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {[...ownLevels, null].map((level) => {
+                  const levelZones = ownZones.filter((zone) => (zone.levelId ?? null) === (level?.id ?? null));
+                  if (!level && levelZones.length === 0) return null;
+                  return (
+                    <div key={level?.id ?? NO_LEVEL} className="space-y-1 pl-2">
+                      {level && (
+                        <div className="flex items-center justify-between text-sm text-muted-foreground">
+                          <span className="flex items-center gap-2">
+                            <Layers className="h-3.5 w-3.5" />
+                            {level.name}
+                          </span>
+                          <button
+                            aria-label={`Remove ${level.name}`}
+                            onClick={() => removeLevel(level.id)}
+                            className="text-destructive/80 hover:text-destructive"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      )}
+                      {levelZones.map((zone) => (
+                        <div key={zone.id} className="flex items-center justify-between pl-5 text-sm">
+                          <div>
+                            <p>{zone.name}</p>
+                            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Timer className="h-3 w-3" />
+                              {zone.timeLimitMinutes
+                                ? `${zone.timeLimitMinutes} min limit · ${zone.graceMinutes} min grace`
+                                : "No time limit"}
+                              {zone.bays && ` · bays ${formatBayRanges(zone.bays)}`}
+                            </p>
+                          </div>
+                          <button
+                            aria-label={`Remove ${zone.name}`}
+                            onClick={() => run(zoneRepository.delete(zone.id))}
+                            className="text-destructive/80 hover:text-destructive"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2 border-t border-white/5 pt-4">
+          <Label htmlFor="site-name">New site</Label>
+          <div className="flex gap-2">
+            <Input id="site-name" value={siteName} onChange={(e) => setSiteName(e.target.value)} />
+            <Button variant="outline" onClick={addSite} disabled={!siteName.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {siteId && (
+          <div className="space-y-4 border-t border-white/5 pt-4">
+            <div className="space-y-2">
+              <Label>Site</Label>
+              <Select value={siteId} onValueChange={(id) => { setZoneSiteId(id); setZoneLevelId(NO_LEVEL); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sites.map((site) => (
+                    <SelectItem key={site.id} value={site.id}>
+                      {site.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="level-name">New level</Label>
+              <div className="flex gap-2">
+                <Input id="level-name" placeholder="e.g. Level 2" value={levelName} onChange={(e) => setLevelName(e.target.value)} />
+                <Button variant="outline" onClick={addLevel} disabled={!levelName.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="zone-name">New zone</Label>
+                <Input id="zone-name" value={zoneName} onChange={(e) => setZoneName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Level</Label>
+                <Select value={zoneLevelId} onValueChange={setZoneLevelId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_LEVEL}>None</SelectItem>
+                    {siteLevels.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-bays">Bays</Label>
+              <Input
+                id="zone-bays"
+                placeholder="e.g. 1-40, B1-B12"
+                value={bays}
+                onChange={(e) => setBays(e.target.value)}
+                aria-invalid={!bayRanges}
+              />
+              {!bayRanges && <p className="text-xs text-destructive">Use ranges like 1-40 or B1-B12.</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="zone-limit">Limit (min)</Label>
+                <Input
+                  id="zone-limit"
+                  type="number"
+                  min={0}
+                  placeholder="None"
+                  value={timeLimit}
+                  onChange={(e) => setTimeLimit(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-grace">Grace (min)</Label>
+                <Input
+                  id="zone-grace"
+                  type="number"
+                  min={0}
+                  value={grace}
+                  onChange={(e) => setGrace(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button
+              className="w-full bg-accent text-accent-foreground"
+              onClick={addZone}
+              disabled={!zoneName.trim() || !bayRanges}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add zone
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
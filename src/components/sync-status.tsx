@@ -0,0 +1,50 @@
+"use client";
+
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+import { cn } from "@/lib/utils";
+
+export function SyncStatusIndicator() {
+  const { state, pending, rejected, lastSyncedAt, error } = useSyncStatus();
+
+  if (state === "disabled") return null;
+
+  const label = {
+    offline: pending > 0 ? `Offline · ${pending} queued` : "Offline",
+    syncing: "Syncing",
+    synced: rejected > 0 ? `Synced · ${rejected} refused` : "Synced",
+    error: "Sync error",
+  }[state];
+
+  const refusedNote =
+    rejected > 0
+      ? `${rejected} ${rejected === 1 ? "change was" : "changes were"} refused by the server and kept on this device only.`
+      : undefined;
+  const title =
+    state === "error"
+      ? error
+      : [lastSyncedAt && `Last synced ${format(new Date(lastSyncedAt), "MMM d, h:mm a")}.`, refusedNote]
+          .filter(Boolean)
+          .join(" ") || undefined;
+
+  return (
+    <div
+      title={title}
+      className={cn(
+        "flex items-center gap-2 rounded-full border px-3 py-1.5 text-xs font-semibold",
+        state === "error"
+          ? "border-destructive/40 bg-destructive/10 text-destructive"
+          : state === "offline"
+            ? "border-white/10 bg-secondary/50 text-muted-foreground"
+            : "border-accent/20 bg-accent/10 text-accent"
+      )}
+    >
+      {state === "offline" && <CloudOff className="h-3.5 w-3.5" />}
+      {state === "syncing" && <RefreshCw className="h-3.5 w-3.5 animate-spin" />}
+      {state === "synced" && <Cloud className="h-3.5 w-3.5" />}
+      {state === "error" && <AlertTriangle className="h-3.5 w-3.5" />}
+      <span>{label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArchiveRestore, Loader2, Trash2, Undo2 } from "lucide-react";
+import { scanRepository } from "@/lib/scan-repository";
+import { emptyTrash, TRASH_RETENTION_DAYS, trashExpiry } from "@/lib/trash";
+import { type TrashedScan } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+
+interface TrashBinProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Deleted scans awaiting permanent removal, with restore and empty actions. */
+export function TrashBin({ open, onOpenChange }: TrashBinProps) {
+  const [trashed, setTrashed] = useState<TrashedScan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const found = await scanRepository.listTrash();
+        if (!cancelled) setTrashed(found);
+      } catch (e) {
+        if (!cancelled) toast({ title: "Load Failed", description: "Could not read the trash.", variant: "destructive" });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    const unsubscribe = scanRepository.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [open]);
+
+  const restore = (ids: string[]) => {
+    scanRepository.restore(ids).catch(() => {
+      toast({ title: "Restore Failed", variant: "destructive" });
+    });
+  };
+
+  const empty = () => {
+    emptyTrash().catch(() => {
+      toast({ title: "Empty Trash Failed", variant: "destructive" });
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-accent/20 max-w-md max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="text-accent">Trash</DialogTitle>
+          <DialogDescription>
+            Deleted scans are kept for {TRASH_RETENTION_DAYS} days before they are removed for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin h-6 w-6 text-accent" />
+          </div>
+        ) : trashed.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center space-y-3">
+            <ArchiveRestore className="h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">The trash is empty.</p>
+          </div>
+        ) : (
+          <>
+            <ul className="flex-1 min-h-0 overflow-y-auto space-y-2">
+              {trashed.map((scan) => (
+                <li key={scan.id} className="flex items-center justify-between gap-3 rounded-lg bg-secondary/40 p-3">
+                  <div className="min-w-0">
+                    <p className="font-mono font-bold text-accent">{scan.plateNumber}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      Scanned {format(new Date(scan.timestamp), "MMM d, h:mm a")} • removed{" "}
+                      {formatDistanceToNow(trashExpiry(scan.deletedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" aria-label={`Restore ${scan.plateNumber}`} onClick={() => restore([scan.id])}>
+                    <Undo2 className="h-4 w-4 text-accent" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-between gap-2">
+              <Button
+                variant="ghost"
+                onClick={() => setIsConfirmingEmpty(true)}
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Empty trash
+              </Button>
+              <Button variant="outline" onClick={() => restore(trashed.map((scan) => scan.id))}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Restore all
+              </Button>
+            </div>
+          </>
+        )}
+
+        <AlertDialog open={isConfirmingEmpty} onOpenChange={setIsConfirmingEmpty}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {trashed.length} {trashed.length === 1 ? "scan" : "scans"} and their evidence photos will be deleted
+                permanently. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={empty} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                Empty trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
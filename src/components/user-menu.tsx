@@ -0,0 +1,42 @@
+"use client";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LogOut, User } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export function UserMenu() {
+  const { isEnabled, user, role, signOut } = useAuth();
+
+  if (!isEnabled || !user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          aria-label="Account"
+          className="flex items-center justify-center h-9 w-9 rounded-full bg-secondary/50 border border-white/10 text-accent"
+        >
+          <User className="h-4 w-4" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="space-y-1">
+          <p className="truncate">{user.displayName || user.email}</p>
+          <p className="text-xs font-normal capitalize text-muted-foreground">{role}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => signOut()}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,48 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { type ListVerdict } from "@/lib/types";
+import { VEHICLE_ATTRIBUTE_LABELS, type VehicleAttributeName } from "@/lib/vehicle-attributes";
+
+const VERDICT_STYLES: Record<ListVerdict, { label: string; className: string }> = {
+  banned: { label: "Banned", className: "bg-destructive/15 text-destructive border-destructive/40" },
+  watch: { label: "Watchlist", className: "bg-amber-500/15 text-amber-300 border-amber-500/40" },
+  permit: { label: "Permit", className: "bg-emerald-500/15 text-emerald-300 border-emerald-500/40" },
+  expired: { label: "Permit expired", className: "bg-orange-500/15 text-orange-300 border-orange-500/40" },
+  unlisted: { label: "No permit", className: "bg-secondary/60 text-muted-foreground border-white/10" },
+};
+
+interface VerdictBadgeProps {
+  verdict: ListVerdict;
+  /** The match relied on OCR-confusable characters. */
+  fuzzy?: boolean;
+  className?: string;
+}
+
+export function VerdictBadge({ verdict, fuzzy, className }: VerdictBadgeProps) {
+  const style = VERDICT_STYLES[verdict];
+  return (
+    <Badge variant="outline" className={cn("px-3", style.className, className)}>
+      {style.label}
+      {fuzzy && <span className="ml-1 opacity-70">≈</span>}
+    </Badge>
+  );
+}
+
+interface PossibleCloneBadgeProps {
+  mismatches: VehicleAttributeName[];
+  className?: string;
+}
+
+/** The vehicle didn't look like the one its list entry describes. */
+export function PossibleCloneBadge({ mismatches, className }: PossibleCloneBadgeProps) {
+  const differs = mismatches.map((name) => VEHICLE_ATTRIBUTE_LABELS[name].toLowerCase()).join(", ");
+  return (
+    <Badge
+      variant="outline"
+      title={`Vehicle ${differs} differs from the list entry`}
+      className={cn("px-3 bg-destructive/15 text-destructive border-destructive/40", className)}
+    >
+      Possible clone
+    </Badge>
+  );
+}
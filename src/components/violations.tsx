@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlarmClock, Check, MapPin, Settings2, X } from "lucide-react";
+import { violationRepository } from "@/lib/zone-repository";
+import { type Violation, type ViolationStatus } from "@/lib/types";
+import { useStoreRecords } from "@/hooks/use-store-records";
+import { useZoneLabels, useZones } from "@/hooks/use-zones";
+import { useToast } from "@/hooks/use-toast";
+import { SiteManager } from "./site-manager";
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+interface ViolationsProps {
+  /** Shows zone setup when the signed-in role may manage zones. */
+  canManageZones: boolean;
+}
+
+export function Violations({ canManageZones }: ViolationsProps) {
+  const violations = useStoreRecords(violationRepository);
+  const zones = useZones();
+  const zoneNames = useZoneLabels();
+  const [showOpen, setShowOpen] = useState(true);
+  const [isSiteManagerOpen, setIsSiteManagerOpen] = useState(false);
+  const { toast } = useToast();
+
+  const openCount = violations.filter((v) => v.status === "open").length;
+  const visible = violations
+    .filter((v) => (v.status === "open") === showOpen)
+    .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+
+  const setStatus = (violation: Violation, status: ViolationStatus) => {
+    violationRepository.put([{ ...violation, status }]).catch(() => {
+      toast({ title: "Update Failed", variant: "destructive" });
+    });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6 pb-32">
+      <div className="flex items-center justify-between sticky top-0 bg-background/95 backdrop-blur-sm z-10 py-4 px-2">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Violations</h2>
+          <p className="text-muted-foreground text-sm">
+            {openCount} open {openCount === 1 ? "overstay" : "overstays"}
+          </p>
+        </div>
+        {canManageZones && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsSiteManagerOpen(true)}
+            className="bg-secondary/50 border-accent/20 hover:border-accent/50"
+          >
+            <Settings2 className="h-4 w-4 mr-2 text-accent" />
+            Sites
+          </Button>
+        )}
+      </div>
+
+      <Tabs value={showOpen ? "open" : "closed"} onValueChange={(value) => setShowOpen(value === "open")} className="px-2">
+        <TabsList className="w-full">
+          <TabsTrigger value="open" className="flex-1">Open</TabsTrigger>
+          <TabsTrigger value="closed" className="flex-1">Closed</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center space-y-4">
+          <div className="bg-secondary/50 p-6 rounded-full border border-white/5">
+            <AlarmClock className="h-10 w-10 text-muted-foreground" />
+          </div>
+          <p className="text-muted-foreground max-w-xs">
+            {zones.some((zone) => zone.timeLimitMinutes)
+              ? "No overstays here."
+              : "Add a zone with a time limit to start chalking."}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3 px-2">
+          {visible.map((violation) => (
+            <Card key={violation.id} className="bg-card/40 border-white/5 p-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="text-2xl font-mono font-bold tracking-tight text-accent">{violation.plateNumber}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <MapPin className="h-3 w-3" />
+                    {zoneNames.get(violation.zoneId) ?? "Deleted zone"}
+                  </div>
+                </div>
+                <Badge variant="outline" className="bg-destructive/15 text-destructive border-destructive/40 px-3">
+                  Over by {formatMinutes(violation.overstayMinutes)}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                First seen {format(new Date(violation.firstSeenAt), "h:mm a")} · last seen{" "}
+                {format(new Date(violation.detectedAt), "h:mm a, MMM d")}
+              </p>
+              {violation.status === "open" ? (
+                <div className="flex gap-2">
+                  <Button size="sm" className="flex-1 bg-accent text-accent-foreground" onClick={() => setStatus(violation, "resolved")}>
+                    <Check className="h-4 w-4 mr-2" />
+                    Resolve
+                  </Button>
+                  <Button size="sm" variant="outline" className="flex-1 border-white/10" onClick={() => setStatus(violation, "dismissed")}>
+                    <X className="h-4 w-4 mr-2" />
+                    Dismiss
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-xs font-semibold uppercase tracking-widest text-muted-foreground">{violation.status}</p>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {canManageZones && <SiteManager open={isSiteManagerOpen} onOpenChange={setIsSiteManagerOpen} />}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MapPin } from "lucide-react";
+import { useLevels, useSites, useZones } from "@/hooks/use-zones";
+
+const NO_ZONE = "none";
+
+interface ZonePickerProps {
+  zoneId: string | null;
+  onChange: (zoneId: string | null) => void;
+}
+
+export function ZonePicker({ zoneId, onChange }: ZonePickerProps) {
+  const sites = useSites();
+  const levels = useLevels();
+  const zones = useZones();
+
+  if (zones.length === 0) return null;
+
+  const value = zoneId && zones.some((zone) => zone.id === zoneId) ? zoneId : NO_ZONE;
+
+  // One group per site, then per level within it; zones without a level come last.
+  const groups = sites.flatMap((site) => {
+    const siteLevels = levels.filter((level) => level.siteId === site.id).sort((a, b) => a.order - b.order);
+    return [...siteLevels, null].map((level) => ({
+      key: level?.id ?? site.id,
+      label: level ? `${site.name} · ${level.name}` : site.name,
+      zones: zones.filter((zone) => zone.siteId === site.id && (zone.levelId ?? null) === (level?.id ?? null)),
+    }));
+  });
+
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next === NO_ZONE ? null : next)}>
+      <SelectTrigger className="h-9 w-auto max-w-[10rem] gap-2 rounded-full bg-secondary/50 border-white/10 text-xs">
+        <MapPin className="h-3.5 w-3.5 text-accent shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent align="end">
+        <SelectItem value={NO_ZONE}>No zone</SelectItem>
+        {groups
+          .filter((group) => group.zones.length > 0)
+          .map((group) => (
+            <SelectGroup key={group.key}>
+              <SelectLabel className="text-xs text-muted-foreground">{group.label}</SelectLabel>
+              {group.zones.map((zone) => (
+                <SelectItem key={zone.id} value={zone.id}>
+                  {zone.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import * as React from "react";
+import {
+  onIdTokenChanged,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  type User,
+} from "firebase/auth";
+import { getFirebaseAuth, isFirebaseConfigured } from "@/lib/firebase";
+import { hasPermission, isRole, type Permission, type Role } from "@/lib/roles";
+
+type AuthContextValue = {
+  /** False when no Firebase project is configured and the app runs as a single local user. */
+  isEnabled: boolean;
+  isLoading: boolean;
+  user: User | null;
+  role: Role | null;
+  can: (permission: Permission) => boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+};
+
+const AuthContext = React.createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = React.useState<User | null>(null);
+  const [role, setRole] = React.useState<Role | null>(null);
+  const [isLoading, setIsLoading] = React.useState(isFirebaseConfigured);
+
+  React.useEffect(() => {
+    if (!isFirebaseConfigured) return;
+
+    // Roles are custom claims set with the Admin SDK (or the emulator UI), so
+    // listen to token changes rather than sign-in state alone.
+    return onIdTokenChanged(getFirebaseAuth(), async (nextUser) => {
+      try {
+        if (nextUser) {
+          const { claims } = await nextUser.getIdTokenResult();
+          setRole(isRole(claims.role) ? claims.role : "operator");
+        } else {
+          setRole(null);
+        }
+      } catch (e) {
+        // Without readable claims the user is signed in with no permissions
+        // until the token next refreshes.
+        setRole(null);
+      } finally {
+        setUser(nextUser);
+        setIsLoading(false);
+      }
+    });
+  }, []);
+
+  const value = React.useMemo<AuthContextValue>(
+    () => ({
+      isEnabled: isFirebaseConfigured,
+      isLoading,
+      user,
+      role,
+      can: (permission) =>
+        !isFirebaseConfigured || (role !== null && hasPermission(role, permission)),
+      signIn: async (email, password) => {
+        await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+      },
+      signOut: () => firebaseSignOut(getFirebaseAuth()),
+    }),
+    [isLoading, user, role]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
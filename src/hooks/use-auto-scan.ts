@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+import { captureSignature, signatureDifference, type FrameSignature } from "@/lib/frame-sampling";
+
+interface UseAutoScanOptions {
+  enabled: boolean;
+  intervalMs: number;
+  /** Minimum frame difference (0-1) before a new frame is sent for OCR. */
+  changeThreshold: number;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  onSample: () => Promise<void>;
+}
+
+/**
+ * Samples the video on an interval while enabled and calls `onSample` for
+ * frames that differ enough from the last one sent. Ticks are skipped while a
+ * previous sample is still in flight.
+ */
+export function useAutoScan({ enabled, intervalMs, changeThreshold, videoRef, onSample }: UseAutoScanOptions) {
+  const onSampleRef = useRef(onSample);
+  onSampleRef.current = onSample;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const sampleCanvas = document.createElement("canvas");
+    let lastSignature: FrameSignature | null = null;
+    let busy = false;
+
+    const id = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || !video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+      const signature = captureSignature(video, sampleCanvas);
+      if (!signature) return;
+      if (lastSignature && signatureDifference(signature, lastSignature) < changeThreshold) return;
+      lastSignature = signature;
+
+      busy = true;
+      try {
+        await onSampleRef.current();
+      } finally {
+        busy = false;
+      }
+    }, intervalMs);
+
+    return () => window.clearInterval(id);
+  }, [enabled, intervalMs, changeThreshold, videoRef]);
+}
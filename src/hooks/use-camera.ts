@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  applyCameraControls,
+  getCameraCapabilities,
+  loadCameraControls,
+  loadCameraDeviceId,
+  saveCameraControls,
+  saveCameraDeviceId,
+  type CameraCapabilities,
+  type CameraControls,
+} from "@/lib/camera-settings";
+
+const RESOLUTION = { width: { ideal: 1920 }, height: { ideal: 1080 } };
+
+async function openCamera(deviceId?: string) {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: deviceId }, ...RESOLUTION } });
+    } catch (e) {
+      // The remembered camera is gone or busy; fall back to the rear camera.
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment", ...RESOLUTION } });
+}
+
+async function listCameras() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+}
+
+/**
+ * Opens the camera the operator last chose, or the rear camera, and restores
+ * that camera's saved controls. Switching camera stops the old stream first,
+ * since phones can't keep two cameras open.
+ */
+export function useCamera() {
+  const [request, setRequest] = useState<{ deviceId?: string } | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [deviceId, setDeviceId] = useState<string>();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(null);
+  const [controls, setControls] = useState<CameraControls>({});
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    setRequest({ deviceId: loadCameraDeviceId() });
+  }, []);
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    setStream(null);
+    setError(null);
+
+    (async () => {
+      try {
+        const userStream = await openCamera(request.deviceId);
+        opened = userStream;
+        if (cancelled) {
+          userStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        const track = userStream.getVideoTracks()[0];
+        const activeId = track.getSettings().deviceId;
+        const trackCapabilities = getCameraCapabilities(track);
+        const saved = activeId ? loadCameraControls(activeId) : {};
+        await applyCameraControls(track, trackCapabilities, saved).catch(() => {});
+        if (cancelled) return;
+
+        setStream(userStream);
+        setDeviceId(activeId);
+        setCapabilities(trackCapabilities);
+        setControls(saved);
+        // Labels are only filled in once camera permission has been granted.
+        setDevices(await listCameras());
+      } catch (e) {
+        if (!cancelled) setError(e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach((track) => track.stop());
+    };
+  }, [request]);
+
+  useEffect(() => {
+    const refresh = () => {
+      listCameras().then(setDevices, () => {});
+    };
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+  }, []);
+
+  const selectDevice = (id: string) => {
+    if (id === deviceId) return;
+    saveCameraDeviceId(id);
+    setRequest({ deviceId: id });
+  };
+
+  const updateControls = (next: CameraControls) => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track || !capabilities || !deviceId) return;
+    setControls(next);
+    saveCameraControls(deviceId, next);
+    applyCameraControls(track, capabilities, next).catch(() => {});
+  };
+
+  return { stream, deviceId, devices, capabilities, controls, error, selectDevice, updateControls };
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { evidenceRepository } from "@/lib/evidence-repository";
+import { getEvidenceUrls } from "@/lib/evidence-storage";
+import { isFirebaseConfigured } from "@/lib/firebase";
+import { CLOUD_SITE_ID } from "@/lib/scan-sync";
+import { type ScanResult } from "@/lib/types";
+
+export type EvidenceUrls = {
+  frameUrl: string;
+  thumbnailUrl: string;
+};
+
+/**
+ * Image URLs for a scan's evidence: object URLs for photos stored on this
+ * device, or Firebase Storage download URLs for ones captured on another.
+ */
+export function useEvidence(scan: ScanResult) {
+  const [urls, setUrls] = useState<EvidenceUrls | null>(null);
+
+  useEffect(() => {
+    setUrls(null);
+    if (!scan.hasEvidence) return;
+
+    let cancelled = false;
+    const objectUrls: string[] = [];
+
+    const load = async () => {
+      const local = await evidenceRepository.get(scan.id);
+      if (local) {
+        objectUrls.push(URL.createObjectURL(local.frame), URL.createObjectURL(local.thumbnail));
+        if (!cancelled) setUrls({ frameUrl: objectUrls[0], thumbnailUrl: objectUrls[1] });
+      } else if (isFirebaseConfigured && navigator.onLine) {
+        const remote = await getEvidenceUrls(scan.siteId ?? CLOUD_SITE_ID, scan.id);
+        if (!cancelled) setUrls(remote);
+      }
+    };
+
+    // Missing evidence just leaves the card without a thumbnail.
+    load().catch(() => {});
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [scan.id, scan.siteId, scan.hasEvidence]);
+
+  return urls;
+}
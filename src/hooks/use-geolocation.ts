@@ -0,0 +1,50 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { type GeoFix } from "@/lib/types";
+
+// A fix older than this no longer says where the scan was taken.
+const MAX_FIX_AGE_MS = 60 * 1000;
+
+/**
+ * Watches the device position while enabled. Returns a getter for the latest
+ * fresh fix, so saving a scan never waits on the GPS.
+ */
+export function useGeolocation(enabled: boolean) {
+  const latestRef = useRef<{ fix: GeoFix; at: number } | null>(null);
+  const [isDenied, setIsDenied] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !("geolocation" in navigator)) return;
+    setIsDenied(false);
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        latestRef.current = {
+          fix: {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+          },
+          at: position.timestamp,
+        };
+      },
+      (error) => {
+        if (error.code === error.PERMISSION_DENIED) setIsDenied(true);
+      },
+      { enableHighAccuracy: true, maximumAge: 10 * 1000 }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      latestRef.current = null;
+    };
+  }, [enabled]);
+
+  const getFix = useCallback(() => {
+    const latest = latestRef.current;
+    return latest && Date.now() - latest.at <= MAX_FIX_AGE_MS ? latest.fix : undefined;
+  }, []);
+
+  return { getFix, isDenied };
+}
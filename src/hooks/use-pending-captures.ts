@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ocrQueueRepository, type PendingCapture } from "@/lib/ocr-queue";
+
+/** Captures still waiting for OCR, oldest first, kept current as the queue changes. */
+export function usePendingCaptures() {
+  const [captures, setCaptures] = useState<PendingCapture[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const all = await ocrQueueRepository.getAll();
+      if (!cancelled) setCaptures(all);
+    };
+
+    load();
+    const unsubscribe = ocrQueueRepository.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return captures;
+}
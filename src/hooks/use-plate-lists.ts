@@ -0,0 +1,9 @@
+"use client";
+
+import { listRepository } from "@/lib/list-repository";
+import { useStoreRecords } from "@/hooks/use-store-records";
+
+/** Every permit, watch and banned list entry, kept current with the repository. */
+export function usePlateLists() {
+  return useStoreRecords(listRepository);
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { scanRepository, type ScanQuery } from "@/lib/scan-repository";
+import { type ScanResult } from "@/lib/types";
+
+/**
+ * Pages of the scan log matching a query, reloaded whenever the repository
+ * changes. A failed read keeps the last page and reports `error`.
+ */
+export function useScanHistory(query: ScanQuery = {}, pageSize = 50) {
+  const [scans, setScans] = useState<ScanResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [limit, setLimit] = useState(pageSize);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Callers pass a fresh object each render; only a change in content should reload.
+  const queryKey = JSON.stringify(query);
+  const stableQuery = useMemo<ScanQuery>(() => JSON.parse(queryKey), [queryKey]);
+
+  useEffect(() => {
+    setLimit(pageSize);
+  }, [queryKey, pageSize]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [page, count] = await Promise.all([
+          scanRepository.getPage({ ...stableQuery, limit }),
+          scanRepository.count(stableQuery),
+        ]);
+        if (!cancelled) {
+          setScans(page);
+          setTotal(count);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    const unsubscribe = scanRepository.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [limit, stableQuery]);
+
+  const loadMore = useCallback(() => setLimit((prev) => prev + pageSize), [pageSize]);
+
+  return { scans, total, isLoading, error, hasMore: scans.length < total, loadMore };
+}
+
+/** Every scan in an inclusive time range, reloaded whenever the repository changes. A failed read reports `error`. */
+export function useScansBetween(from: Date, to: Date) {
+  const [scans, setScans] = useState<ScanResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const load = async () => {
+      try {
+        const found = await scanRepository.findBetween(fromIso, toIso);
+        if (!cancelled) {
+          setScans(found);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    const unsubscribe = scanRepository.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [fromIso, toIso]);
+
+  return { scans, isLoading, error };
+}
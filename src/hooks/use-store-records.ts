@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { type StoreRepository } from "@/lib/store-repository";
+
+/** Every record in a store repository, kept current as it changes. A failed read keeps the last records. */
+export function useStoreRecords<T extends { id: string }>(repository: StoreRepository<T>) {
+  const [records, setRecords] = useState<T[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const all = await repository.getAll();
+        if (!cancelled) setRecords(all);
+      } catch (e) {
+        // Nothing to show beyond what is already there; the next change reloads.
+      }
+    };
+
+    load();
+    const unsubscribe = repository.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository]);
+
+  return records;
+}
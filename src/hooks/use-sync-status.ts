@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getSyncStatus, subscribeToSyncStatus, type SyncStatus } from "@/lib/scan-sync";
+
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState(getSyncStatus);
+
+  useEffect(() => {
+    setStatus(getSyncStatus());
+    return subscribeToSyncStatus(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+function scrollParentOf(element: HTMLElement): HTMLElement | null {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === "auto" || overflowY === "scroll") return parent;
+  }
+  return null;
+}
+
+/**
+ * Windowing for a list of fixed-height rows inside whatever element scrolls
+ * it. Returns the slice of row indexes worth rendering, with `overscan` rows
+ * of slack on each side, and a callback ref for the list element. The ref
+ * re-attaches the listeners whenever the list remounts.
+ */
+export function useVirtualRows(count: number, rowHeight: number, overscan = 5) {
+  const [list, listRef] = useState<HTMLElement | null>(null);
+  const [range, setRange] = useState({ start: 0, end: Math.min(count, 20) });
+
+  useEffect(() => {
+    if (!list) return;
+    const scroller = scrollParentOf(list);
+
+    const update = () => {
+      const viewportTop = scroller ? scroller.getBoundingClientRect().top : 0;
+      const viewportHeight = scroller ? scroller.clientHeight : window.innerHeight;
+      // How far the top of the list has scrolled above the top of the viewport.
+      const scrolled = viewportTop - list.getBoundingClientRect().top;
+      const start = Math.max(0, Math.floor(scrolled / rowHeight) - overscan);
+      const end = Math.min(count, Math.ceil((scrolled + viewportHeight) / rowHeight) + overscan);
+      setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+
+    update();
+    const target = scroller ?? window;
+    target.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      target.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [list, count, rowHeight, overscan]);
+
+  return { ...range, listRef };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { levelRepository, siteRepository, zoneRepository } from "@/lib/zone-repository";
+import { useStoreRecords } from "@/hooks/use-store-records";
+
+const CURRENT_ZONE_KEY = "plateseeker_zone";
+
+export function useSites() {
+  return useStoreRecords(siteRepository);
+}
+
+export function useLevels() {
+  return useStoreRecords(levelRepository);
+}
+
+export function useZones() {
+  return useStoreRecords(zoneRepository);
+}
+
+/** "Site · Level · Zone" for every zone, keyed by zone id. */
+export function useZoneLabels() {
+  const sites = useSites();
+  const levels = useLevels();
+  const zones = useZones();
+
+  return useMemo(() => {
+    const names = new Map([...sites, ...levels].map((record) => [record.id, record.name]));
+    return new Map(
+      zones.map((zone) => [
+        zone.id,
+        [names.get(zone.siteId), zone.levelId && names.get(zone.levelId), zone.name].filter(Boolean).join(" · "),
+      ])
+    );
+  }, [sites, levels, zones]);
+}
+
+/** The zone the operator is patrolling, remembered on this device. */
+export function useCurrentZone() {
+  const [zoneId, setZoneId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setZoneId(localStorage.getItem(CURRENT_ZONE_KEY));
+  }, []);
+
+  const selectZone = (id: string | null) => {
+    setZoneId(id);
+    if (id) localStorage.setItem(CURRENT_ZONE_KEY, id);
+    else localStorage.removeItem(CURRENT_ZONE_KEY);
+  };
+
+  return [zoneId, selectZone] as const;
+}
@@ -0,0 +1,106 @@
+/** Manual controls for one camera. Unset fields leave the camera on its own defaults. */
+export type CameraControls = {
+  torch?: boolean;
+  zoom?: number;
+  /** Turns off autofocus in favour of `focusDistance`. */
+  manualFocus?: boolean;
+  focusDistance?: number;
+  /** Brightness bias in EV while the camera keeps metering exposure itself. */
+  exposureCompensation?: number;
+};
+
+export type CameraRange = { min: number; max: number; step: number };
+
+/** The controls a camera track supports, from `MediaStreamTrack.getCapabilities`. */
+export type CameraCapabilities = {
+  torch: boolean;
+  zoom?: CameraRange;
+  manualFocus: boolean;
+  focusDistance?: CameraRange;
+  exposureCompensation?: CameraRange;
+};
+
+type CameraPreferences = {
+  /** The camera last chosen; unset picks the rear camera. */
+  deviceId?: string;
+  controls: Record<string, CameraControls>;
+};
+
+// Image capture constraints are missing from the DOM typings.
+type ImageCaptureCapabilities = MediaTrackCapabilities & {
+  torch?: boolean;
+  zoom?: CameraRange;
+  focusMode?: string[];
+  focusDistance?: CameraRange;
+  exposureCompensation?: CameraRange;
+};
+
+const STORAGE_KEY = "plateseeker_camera";
+
+function loadPreferences(): CameraPreferences {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      return { controls: {}, ...JSON.parse(saved) };
+    } catch (e) {}
+  }
+  return { controls: {} };
+}
+
+function savePreferences(preferences: CameraPreferences) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+}
+
+export function loadCameraDeviceId(): string | undefined {
+  return loadPreferences().deviceId;
+}
+
+export function saveCameraDeviceId(deviceId: string) {
+  savePreferences({ ...loadPreferences(), deviceId });
+}
+
+export function loadCameraControls(deviceId: string): CameraControls {
+  return loadPreferences().controls[deviceId] ?? {};
+}
+
+export function saveCameraControls(deviceId: string, controls: CameraControls) {
+  const preferences = loadPreferences();
+  savePreferences({ ...preferences, controls: { ...preferences.controls, [deviceId]: controls } });
+}
+
+const isRange = (range?: CameraRange): range is CameraRange => !!range && range.max > range.min;
+
+export function getCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  // Firefox has no getCapabilities; such cameras get no manual controls.
+  const capabilities: ImageCaptureCapabilities = track.getCapabilities?.() ?? {};
+  const focusModes = capabilities.focusMode ?? [];
+  return {
+    torch: capabilities.torch === true,
+    zoom: isRange(capabilities.zoom) ? capabilities.zoom : undefined,
+    manualFocus: focusModes.includes("manual") && focusModes.includes("continuous"),
+    focusDistance: isRange(capabilities.focusDistance) ? capabilities.focusDistance : undefined,
+    exposureCompensation: isRange(capabilities.exposureCompensation) ? capabilities.exposureCompensation : undefined,
+  };
+}
+
+/** Applies the controls the track supports and ignores the rest. */
+export async function applyCameraControls(
+  track: MediaStreamTrack,
+  capabilities: CameraCapabilities,
+  controls: CameraControls
+) {
+  const constraints: Record<string, unknown> = {};
+  if (capabilities.torch && controls.torch !== undefined) constraints.torch = controls.torch;
+  if (capabilities.zoom && controls.zoom !== undefined) constraints.zoom = controls.zoom;
+  if (capabilities.manualFocus && controls.manualFocus !== undefined) {
+    constraints.focusMode = controls.manualFocus ? "manual" : "continuous";
+    if (controls.manualFocus && capabilities.focusDistance && controls.focusDistance !== undefined) {
+      constraints.focusDistance = controls.focusDistance;
+    }
+  }
+  if (capabilities.exposureCompensation && controls.exposureCompensation !== undefined) {
+    constraints.exposureCompensation = controls.exposureCompensation;
+  }
+  if (Object.keys(constraints).length === 0) return;
+  await track.applyConstraints({ advanced: [constraints as MediaTrackConstraintSet] });
+}
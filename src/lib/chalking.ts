@@ -0,0 +1,67 @@
+import { differenceInMinutes } from "date-fns";
+import { scanRepository } from "@/lib/scan-repository";
+import { violationRepository, zoneRepository } from "@/lib/zone-repository";
+import { VISIT_GAP_MS } from "@/lib/scan-analytics";
+import { type ParkingZone, type ScanResult, type Violation } from "@/lib/types";
+
+/**
+ * Digital chalking: the first sighting of a plate in a zone marks its
+ * arrival, and a gap longer than `VISIT_GAP_MS` between sightings starts a
+ * new visit, as on the dashboard. A later sighting past the zone's limit plus
+ * grace is an overstay. Returns null if the scan is within the limit.
+ */
+export function findOverstay(
+  scan: ScanResult,
+  sightings: ScanResult[],
+  zone: ParkingZone
+): Omit<Violation, "status"> | null {
+  if (!zone.timeLimitMinutes || scan.zoneId !== zone.id) return null;
+
+  const seenAt = new Date(scan.timestamp);
+  const earlier = sightings
+    .filter((s) => s.zoneId === zone.id && s.id !== scan.id && s.timestamp <= scan.timestamp)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  // Walk back through the visit until a long enough gap ends it.
+  let firstSeen = scan;
+  for (const s of earlier) {
+    if (Date.parse(firstSeen.timestamp) - Date.parse(s.timestamp) > VISIT_GAP_MS) break;
+    firstSeen = s;
+  }
+
+  const stayed = differenceInMinutes(seenAt, new Date(firstSeen.timestamp));
+  const overstay = stayed - zone.timeLimitMinutes - zone.graceMinutes;
+  if (overstay <= 0) return null;
+
+  return {
+    // One violation per visit; later sightings update it rather than adding more.
+    id: `${zone.id}:${scan.plateNumber}:${firstSeen.timestamp}`,
+    plateNumber: scan.plateNumber,
+    zoneId: zone.id,
+    firstSeenAt: firstSeen.timestamp,
+    detectedAt: scan.timestamp,
+    scanId: scan.id,
+    overstayMinutes: overstay,
+  };
+}
+
+/** Checks freshly saved scans for overstays and records them. Returns the violations raised or updated. */
+export async function recordOverstays(scans: ScanResult[]): Promise<Violation[]> {
+  const timed = scans.filter((scan) => scan.zoneId);
+  if (timed.length === 0) return [];
+
+  const zones = new Map((await zoneRepository.getAll()).map((zone) => [zone.id, zone]));
+  const violations: Violation[] = [];
+  for (const scan of timed) {
+    const zone = zones.get(scan.zoneId!);
+    if (!zone?.timeLimitMinutes) continue;
+
+    const overstay = findOverstay(scan, await scanRepository.findByPlate(scan.plateNumber), zone);
+    if (!overstay) continue;
+
+    const existing = await violationRepository.get(overstay.id);
+    violations.push({ ...overstay, status: existing?.status ?? "open" });
+  }
+
+  if (violations.length > 0) await violationRepository.put(violations);
+  return violations;
+}
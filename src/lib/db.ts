@@ -0,0 +1,112 @@
+// Shared IndexedDB connection. Each store is created by the upgrade step for
+// the version that introduced it, so existing databases upgrade in place.
+
+const DB_NAME = "plateseeker";
+const DB_VERSION = 8;
+
+export const SCANS_STORE = "scans";
+/** Scan ids with local changes not yet pushed to the cloud. */
+export const OUTBOX_STORE = "outbox";
+export const LIST_ENTRIES_STORE = "listEntries";
+export const ZONES_STORE = "zones";
+export const VIOLATIONS_STORE = "violations";
+export const SITES_STORE = "sites";
+export const LEVELS_STORE = "levels";
+/** Evidence photos keyed by scan id, kept apart so paging the log never loads image blobs. */
+export const EVIDENCE_STORE = "evidence";
+/** Deleted scans, kept until restored or past the retention period. */
+export const TRASH_STORE = "trash";
+/** Captures taken offline, waiting to be sent for OCR. */
+export const OCR_QUEUE_STORE = "ocrQueue";
+
+/** Site that zones created before sites existed were moved into. */
+export const DEFAULT_SITE_ID = "default";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number, tx: IDBTransaction) {
+  if (oldVersion < 1) {
+    const scans = db.createObjectStore(SCANS_STORE, { keyPath: "id" });
+    scans.createIndex("plateNumber", "plateNumber");
+    scans.createIndex("timestamp", "timestamp");
+  }
+  if (oldVersion < 2) {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: "scanId" });
+    // Scans recorded before sync existed are queued too, dated by their
+    // capture time so last-write-wins has something to compare.
+    const queuedAt = new Date().toISOString();
+    const existing = tx.objectStore(SCANS_STORE).openCursor();
+    existing.onsuccess = () => {
+      const cursor = existing.result;
+      if (!cursor) return;
+      const scan = cursor.value;
+      if (!scan.updatedAt) cursor.update({ ...scan, updatedAt: scan.timestamp });
+      outbox.put({ scanId: scan.id, queuedAt });
+      cursor.continue();
+    };
+  }
+  if (oldVersion < 3) {
+    const entries = db.createObjectStore(LIST_ENTRIES_STORE, { keyPath: "id" });
+    entries.createIndex("plateNumber", "plateNumber");
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(ZONES_STORE, { keyPath: "id" });
+    db.createObjectStore(VIOLATIONS_STORE, { keyPath: "id" });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(SITES_STORE, { keyPath: "id" });
+    db.createObjectStore(LEVELS_STORE, { keyPath: "id" });
+    tx.objectStore(SCANS_STORE).createIndex("zoneTimestamp", ["zoneId", "timestamp"]);
+
+    const zones = tx.objectStore(ZONES_STORE);
+    const existing = zones.getAll();
+    existing.onsuccess = () => {
+      if (existing.result.length === 0) return;
+      tx.objectStore(SITES_STORE).put({ id: DEFAULT_SITE_ID, name: "Main site" });
+      existing.result.forEach((zone) => zones.put({ siteId: DEFAULT_SITE_ID, ...zone }));
+    };
+  }
+  if (oldVersion < 6) {
+    const evidence = db.createObjectStore(EVIDENCE_STORE, { keyPath: "scanId" });
+    // Sparse: only records still waiting for upload carry the field.
+    evidence.createIndex("pendingUpload", "pendingUpload");
+  }
+  if (oldVersion < 7) {
+    const trash = db.createObjectStore(TRASH_STORE, { keyPath: "id" });
+    trash.createIndex("deletedAt", "deletedAt");
+  }
+  if (oldVersion < 8) {
+    db.createObjectStore(OCR_QUEUE_STORE, { keyPath: "id" });
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed, e.g. in a private window.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
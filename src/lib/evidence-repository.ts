@@ -0,0 +1,117 @@
+import { EVIDENCE_STORE, openDatabase, promisifyRequest, transactionDone } from "@/lib/db";
+import { cropPlateThumbnail, dataUriToBlob } from "@/lib/evidence";
+import { type BoundingBox } from "@/ai/flows/initiate-scan-with-prompt";
+
+/** The frame a scan was read from and a crop of its plate. */
+export type EvidenceRecord = {
+  scanId: string;
+  frame: Blob;
+  thumbnail: Blob;
+  createdAt: string;
+  /** Site of the scan, whose storage folder the images upload to. */
+  siteId?: string;
+  /** Present (always 1) until both images are in cloud storage. */
+  pendingUpload?: 1;
+  /** Set when cloud storage refused the images, which no retry can change; they stay on this device. */
+  uploadRejected?: true;
+};
+
+export interface EvidenceRepository {
+  /** Stores the frame and a plate crop for a scan and queues them for upload. */
+  save(scanId: string, photoDataUri: string, box?: BoundingBox, siteId?: string): Promise<void>;
+  get(scanId: string): Promise<EvidenceRecord | undefined>;
+  pendingUploads(): Promise<EvidenceRecord[]>;
+  markUploaded(scanId: string): Promise<void>;
+  /** Takes a scan's evidence out of the upload queue without it reaching cloud storage. */
+  markUploadRejected(scanId: string): Promise<void>;
+  delete(scanId: string): Promise<void>;
+  clear(): Promise<void>;
+  subscribe(listener: () => void): () => void;
+}
+
+function createEvidenceRepository(): EvidenceRepository {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    async save(scanId, photoDataUri, box, siteId) {
+      const [frame, thumbnail] = await Promise.all([
+        dataUriToBlob(photoDataUri),
+        cropPlateThumbnail(photoDataUri, box),
+      ]);
+      const db = await openDatabase();
+      const tx = db.transaction(EVIDENCE_STORE, "readwrite");
+      const record: EvidenceRecord = {
+        scanId,
+        frame,
+        thumbnail,
+        createdAt: new Date().toISOString(),
+        siteId,
+        pendingUpload: 1,
+      };
+      tx.objectStore(EVIDENCE_STORE).put(record);
+      await transactionDone(tx);
+      notify();
+    },
+
+    async get(scanId) {
+      const db = await openDatabase();
+      return promisifyRequest(db.transaction(EVIDENCE_STORE).objectStore(EVIDENCE_STORE).get(scanId));
+    },
+
+    async pendingUploads() {
+      const db = await openDatabase();
+      const index = db.transaction(EVIDENCE_STORE).objectStore(EVIDENCE_STORE).index("pendingUpload");
+      return promisifyRequest(index.getAll());
+    },
+
+    async markUploaded(scanId) {
+      const db = await openDatabase();
+      const tx = db.transaction(EVIDENCE_STORE, "readwrite");
+      const store = tx.objectStore(EVIDENCE_STORE);
+      const record: EvidenceRecord | undefined = await promisifyRequest(store.get(scanId));
+      if (record) {
+        const { pendingUpload, ...uploaded } = record;
+        store.put(uploaded);
+      }
+      await transactionDone(tx);
+    },
+
+    async markUploadRejected(scanId) {
+      const db = await openDatabase();
+      const tx = db.transaction(EVIDENCE_STORE, "readwrite");
+      const store = tx.objectStore(EVIDENCE_STORE);
+      const record: EvidenceRecord | undefined = await promisifyRequest(store.get(scanId));
+      if (record) {
+        const { pendingUpload, ...rejected } = record;
+        store.put({ ...rejected, uploadRejected: true });
+      }
+      await transactionDone(tx);
+    },
+
+    async delete(scanId) {
+      const db = await openDatabase();
+      const tx = db.transaction(EVIDENCE_STORE, "readwrite");
+      tx.objectStore(EVIDENCE_STORE).delete(scanId);
+      await transactionDone(tx);
+      notify();
+    },
+
+    async clear() {
+      const db = await openDatabase();
+      const tx = db.transaction(EVIDENCE_STORE, "readwrite");
+      tx.objectStore(EVIDENCE_STORE).clear();
+      await transactionDone(tx);
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export const evidenceRepository = createEvidenceRepository();
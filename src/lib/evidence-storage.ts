@@ -0,0 +1,38 @@
+import { FirebaseError } from "firebase/app";
+import { getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { getFirebaseStorage } from "@/lib/firebase";
+import { type EvidenceRecord } from "@/lib/evidence-repository";
+
+const evidencePath = (siteId: string, scanId: string, name: "frame" | "thumbnail") =>
+  `sites/${siteId}/evidence/${scanId}/${name}.jpg`;
+
+/** Uploads both images of a scan's evidence to Firebase Storage. */
+export async function uploadEvidence(siteId: string, record: EvidenceRecord) {
+  const storage = getFirebaseStorage();
+  const metadata = { contentType: "image/jpeg" };
+  await Promise.all([
+    uploadBytes(ref(storage, evidencePath(siteId, record.scanId, "frame")), record.frame, metadata),
+    uploadBytes(ref(storage, evidencePath(siteId, record.scanId, "thumbnail")), record.thumbnail, metadata),
+  ]);
+}
+
+/**
+ * Whether storage refused an upload outright, e.g. an image over the size
+ * limit in `storage.rules`, rather than failing in a way a retry could fix.
+ */
+export function isRejectedUpload(error: unknown) {
+  return (
+    error instanceof FirebaseError &&
+    (error.code === "storage/unauthorized" || error.code === "storage/invalid-argument")
+  );
+}
+
+/** Download URLs for evidence captured on another device. */
+export async function getEvidenceUrls(siteId: string, scanId: string) {
+  const storage = getFirebaseStorage();
+  const [frameUrl, thumbnailUrl] = await Promise.all([
+    getDownloadURL(ref(storage, evidencePath(siteId, scanId, "frame"))),
+    getDownloadURL(ref(storage, evidencePath(siteId, scanId, "thumbnail"))),
+  ]);
+  return { frameUrl, thumbnailUrl };
+}
@@ -0,0 +1,72 @@
+import { type BoundingBox } from "@/ai/flows/initiate-scan-with-prompt";
+
+const THUMBNAIL_MAX_WIDTH = 320;
+// Extra room around the detected plate so the crop shows some of the vehicle.
+const CROP_MARGIN = 0.15;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not decode the captured frame"));
+    image.src = src;
+  });
+}
+
+export async function dataUriToBlob(dataUri: string): Promise<Blob> {
+  const response = await fetch(dataUri);
+  return response.blob();
+}
+
+export function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** A JPEG no larger than `maxEdge` on its longest side, for images too big to send for OCR or store as they are. */
+export async function downscaleImage(photoDataUri: string, maxEdge: number): Promise<string> {
+  const image = await loadImage(photoDataUri);
+  const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Context error");
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", 0.85);
+}
+
+/** A small JPEG of the plate's bounding box, or of the whole frame when there is none. */
+export async function cropPlateThumbnail(photoDataUri: string, box?: BoundingBox): Promise<Blob> {
+  const image = await loadImage(photoDataUri);
+  const { naturalWidth: width, naturalHeight: height } = image;
+
+  let sx = 0;
+  let sy = 0;
+  let sw = width;
+  let sh = height;
+  if (box) {
+    const marginX = box.width * CROP_MARGIN;
+    const marginY = box.height * CROP_MARGIN;
+    sx = Math.max(0, (box.x - marginX) * width);
+    sy = Math.max(0, (box.y - marginY) * height);
+    sw = Math.min(width - sx, (box.width + 2 * marginX) * width);
+    sh = Math.min(height - sy, (box.height + 2 * marginY) * height);
+  }
+
+  const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / sw);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Context error");
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode thumbnail"))), "image/jpeg", 0.85);
+  });
+}
@@ -0,0 +1,56 @@
+// EXIF sits in the APP1 segment near the start of a JPEG; 128 KB covers it
+// even behind a large embedded thumbnail.
+const HEADER_BYTES = 128 * 1024;
+const EXIF_IFD_POINTER = 0x8769;
+const DATE_TIME_ORIGINAL = 0x9003;
+
+/** The value of `tag` in the IFD at `offset`, as a byte offset for pointers and strings. */
+function findTag(view: DataView, tiff: number, offset: number, tag: number, little: boolean): number | null {
+  const count = view.getUint16(tiff + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (view.getUint16(entry, little) === tag) return view.getUint32(entry + 8, little);
+  }
+  return null;
+}
+
+function readExifDate(view: DataView, tiff: number): Date | null {
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = view.getUint32(tiff + 4, little);
+  const exifIfd = findTag(view, tiff, ifd0, EXIF_IFD_POINTER, little);
+  if (exifIfd === null) return null;
+  const valueOffset = findTag(view, tiff, exifIfd, DATE_TIME_ORIGINAL, little);
+  if (valueOffset === null) return null;
+
+  // "YYYY:MM:DD HH:MM:SS" in the camera's local time, which is taken as the device's.
+  const text = String.fromCharCode(...new Uint8Array(view.buffer, tiff + valueOffset, 19));
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(text);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * When a JPEG photo was taken, from its EXIF DateTimeOriginal. Null for other
+ * formats and for photos whose metadata was stripped, e.g. by messaging apps.
+ */
+export async function readCaptureTime(file: Blob): Promise<Date | null> {
+  const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  try {
+    if (view.getUint16(0) !== 0xffd8) return null;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // "Exif\0\0" ahead of the TIFF header.
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) return readExifDate(view, offset + 10);
+      // Image data follows the start-of-scan marker, so there is no metadata past it.
+      if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null;
+      offset += 2 + length;
+    }
+  } catch (e) {
+    // Offsets running past the bytes read mean truncated or malformed metadata.
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+import { getApp, getApps, initializeApp, type FirebaseApp } from "firebase/app";
+import { connectAuthEmulator, getAuth, type Auth } from "firebase/auth";
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  type Firestore,
+} from "firebase/firestore";
+import { connectStorageEmulator, getStorage, type FirebaseStorage } from "firebase/storage";
+
+const firebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+/** Cloud features stay off until a Firebase project is configured. */
+export const isFirebaseConfigured = Boolean(firebaseConfig.apiKey && firebaseConfig.projectId);
+
+/** Points Auth, Firestore and Storage at the local emulators started by `firebase emulators:start`. */
+const useEmulators = process.env.NEXT_PUBLIC_FIREBASE_USE_EMULATORS === "true";
+const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || "127.0.0.1";
+
+export function getFirebaseApp(): FirebaseApp {
+  return getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+}
+
+let firestore: Firestore | null = null;
+
+export function getFirestoreDb(): Firestore {
+  if (!firestore) {
+    try {
+      // Optional ScanResult fields are left undefined rather than omitted.
+      firestore = initializeFirestore(getFirebaseApp(), { ignoreUndefinedProperties: true });
+      if (useEmulators) connectFirestoreEmulator(firestore, emulatorHost, 8080);
+    } catch (e) {
+      // Already initialized, e.g. after a hot reload.
+      firestore = getFirestore(getFirebaseApp());
+    }
+  }
+  return firestore;
+}
+
+let auth: Auth | null = null;
+
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    if (useEmulators) connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+  }
+  return auth;
+}
+
+let storage: FirebaseStorage | null = null;
+
+export function getFirebaseStorage(): FirebaseStorage {
+  if (!storage) {
+    storage = getStorage(getFirebaseApp());
+    if (useEmulators) connectStorageEmulator(storage, emulatorHost, 9199);
+  }
+  return storage;
+}
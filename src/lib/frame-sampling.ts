@@ -0,0 +1,33 @@
+// Low-resolution grayscale fingerprints of video frames, used to skip OCR
+// calls when the camera is looking at the same scene as last time.
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+
+export type FrameSignature = Uint8ClampedArray;
+
+export function captureSignature(video: HTMLVideoElement, canvas: HTMLCanvasElement): FrameSignature | null {
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8ClampedArray(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    const o = i * 4;
+    signature[i] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+  }
+  return signature;
+}
+
+/** Mean absolute luminance difference between two signatures, from 0 (identical) to 1. */
+export function signatureDifference(a: FrameSignature, b: FrameSignature): number {
+  if (a.length !== b.length) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+  }
+  return total / (a.length * 255);
+}
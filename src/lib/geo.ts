@@ -0,0 +1,66 @@
+import { type ScanResult } from "@/lib/types";
+
+const EARTH_RADIUS_M = 6371000;
+
+export const TILE_SIZE = 256;
+
+type LatLng = { latitude: number; longitude: number };
+
+/** Great-circle distance in metres. */
+export function distanceMeters(a: LatLng, b: LatLng) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/** Web Mercator pixel position at zoom 0, where the world is one tile wide. */
+export function projectMercator({ latitude, longitude }: LatLng) {
+  const lat = (Math.max(-85.05, Math.min(85.05, latitude)) * Math.PI) / 180;
+  return {
+    x: ((longitude + 180) / 360) * TILE_SIZE,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * TILE_SIZE,
+  };
+}
+
+/** Ground distance covered by one pixel at the given latitude and zoom. */
+export function metersPerPixel(latitude: number, zoom: number) {
+  return (2 * Math.PI * EARTH_RADIUS_M * Math.cos((latitude * Math.PI) / 180)) / (TILE_SIZE * 2 ** zoom);
+}
+
+/** Repeat sightings of one plate close enough together to show as a single marker. */
+export type Sighting = LatLng & {
+  plateNumber: string;
+  scans: ScanResult[];
+};
+
+/**
+ * Groups geotagged scans by plate, then by place: a scan joins the first
+ * sighting of its plate within `radiusMeters`, whose centre moves to the mean.
+ */
+export function clusterSightings(scans: ScanResult[], radiusMeters = 50): Sighting[] {
+  const byPlate = new Map<string, Sighting[]>();
+
+  for (const scan of scans) {
+    if (!scan.location) continue;
+    const sightings = byPlate.get(scan.plateNumber) ?? [];
+    const near = sightings.find((sighting) => distanceMeters(sighting, scan.location!) <= radiusMeters);
+    if (near) {
+      near.scans.push(scan);
+      near.latitude += (scan.location.latitude - near.latitude) / near.scans.length;
+      near.longitude += (scan.location.longitude - near.longitude) / near.scans.length;
+    } else {
+      sightings.push({
+        plateNumber: scan.plateNumber,
+        latitude: scan.location.latitude,
+        longitude: scan.location.longitude,
+        scans: [scan],
+      });
+      byPlate.set(scan.plateNumber, sightings);
+    }
+  }
+
+  return [...byPlate.values()].flat();
+}
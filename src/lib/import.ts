@@ -0,0 +1,352 @@
+import { format, isValid, parse } from "date-fns";
+import { compactPlate, normalizePlate, type PlateRegion } from "@/lib/plate-formats";
+import { matchPlate } from "@/lib/plate-matching";
+import { VEHICLE_ATTRIBUTE_NAMES, type ExpectedVehicle } from "@/lib/vehicle-attributes";
+import { type ParkingZone, type PlateListEntry, type PlateListKind, type ScanResult } from "@/lib/types";
+
+export type ImportTarget = "scans" | "permits";
+
+/** Parsed file contents: every value as text, keyed by column name. */
+export type ImportTable = {
+  columns: string[];
+  rows: Record<string, string>[];
+};
+
+export type ImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  /** Column names recognised for this field, compared without case or punctuation. */
+  aliases: string[];
+};
+
+/** Field key to the column it is read from; unmapped fields are absent. */
+export type ColumnMapping = Partial<Record<string, string>>;
+
+export type ImportRow<T> = {
+  /** 1-based row number in the file, not counting a CSV header. */
+  line: number;
+  /** Absent when the row has errors. */
+  record?: T;
+  errors: string[];
+  /** Matches an existing record or an earlier row; skipped on import. */
+  duplicate: boolean;
+};
+
+export type ImportContext = {
+  region: PlateRegion;
+  zones: ParkingZone[];
+  zoneLabels: Map<string, string>;
+  listEntries: PlateListEntry[];
+  /** Scans already in the log over the imported time range. */
+  existingScans: ScanResult[];
+};
+
+const PLATE_ALIASES = ["plate", "platenumber", "registration", "reg", "vrm", "licenseplate", "numberplate"];
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  scans: [
+    { key: "plateNumber", label: "Plate", required: true, aliases: PLATE_ALIASES },
+    {
+      key: "timestamp",
+      label: "Seen at",
+      required: true,
+      aliases: ["timestamp", "time", "datetime", "date", "seenat", "scannedat", "capturedat"],
+    },
+    { key: "confidence", label: "Confidence", aliases: ["confidence", "score"] },
+    { key: "operatorName", label: "Operator", aliases: ["operator", "operatorname", "officer", "user"] },
+    { key: "zone", label: "Zone", aliases: ["zone", "zonename", "area"] },
+    { key: "latitude", label: "Latitude", aliases: ["latitude", "lat", "locationlatitude"] },
+    { key: "longitude", label: "Longitude", aliases: ["longitude", "lng", "lon", "locationlongitude"] },
+    { key: "notes", label: "Notes", aliases: ["notes", "note", "comment", "comments"] },
+    { key: "tags", label: "Tags", aliases: ["tags", "tag"] },
+  ],
+  permits: [
+    { key: "plateNumber", label: "Plate", required: true, aliases: PLATE_ALIASES },
+    { key: "list", label: "List", aliases: ["list", "listtype", "type", "category"] },
+    { key: "validFrom", label: "Valid from", aliases: ["validfrom", "from", "start", "startdate"] },
+    {
+      key: "validUntil",
+      label: "Valid until",
+      aliases: ["validuntil", "until", "expiry", "expires", "expirydate", "enddate"],
+    },
+    { key: "notes", label: "Notes", aliases: ["notes", "note", "holder", "name", "comment", "comments"] },
+    { key: "colour", label: "Colour", aliases: ["colour", "color", "vehiclecolour", "expectedvehiclecolour"] },
+    { key: "bodyType", label: "Body type", aliases: ["bodytype", "body", "expectedvehiclebodytype"] },
+    { key: "make", label: "Make", aliases: ["make", "manufacturer", "expectedvehiclemake"] },
+    { key: "model", label: "Model", aliases: ["model", "expectedvehiclemodel"] },
+  ],
+};
+
+const LIST_NAMES: Record<string, PlateListKind> = {
+  permit: "permit",
+  permits: "permit",
+  watch: "watch",
+  watchlist: "watch",
+  banned: "banned",
+  ban: "banned",
+};
+
+// Tried before the Date constructor, which would read "03/04/2024" month first.
+const TIMESTAMP_FORMATS = [
+  "yyyy-MM-dd HH:mm:ss",
+  "yyyy-MM-dd HH:mm",
+  "dd/MM/yyyy HH:mm:ss",
+  "dd/MM/yyyy HH:mm",
+  "dd/MM/yyyy",
+];
+const DATE_FORMATS = ["yyyy-MM-dd", "dd/MM/yyyy"];
+
+const headerKey = (column: string) => column.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** RFC 4180 CSV: quoted fields may hold commas, quotes ("") and line breaks. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+// Nested objects become dotted columns ("location.latitude") and arrays are joined with ";".
+function flatten(value: unknown, prefix: string, into: Record<string, string>) {
+  if (value === null || value === undefined) return;
+  if (Array.isArray(value)) {
+    into[prefix] = value.map((item) => (typeof item === "object" ? JSON.stringify(item) : String(item))).join(";");
+  } else if (typeof value === "object") {
+    Object.entries(value).forEach(([key, nested]) => flatten(nested, prefix ? `${prefix}.${key}` : key, into));
+  } else {
+    into[prefix] = String(value);
+  }
+}
+
+/** Reads a CSV file with a header row, or a JSON array of objects. Throws if neither parses. */
+export function parseImportFile(fileName: string, text: string): ImportTable {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error("The JSON file must contain an array of records.");
+    const rows = data.map((item) => {
+      const row: Record<string, string> = {};
+      flatten(item, "", row);
+      return row;
+    });
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    return { columns, rows };
+  }
+
+  const [header, ...body] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) throw new Error("The file is empty.");
+  const columns = header.map((column) => column.trim());
+  // Undoes the formula quoting the CSV export adds, so exported scans import unchanged.
+  const unquote = (value = "") => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value);
+  const rows = body.map((values) => Object.fromEntries(columns.map((column, i) => [column, unquote(values[i])])));
+  return { columns, rows };
+}
+
+/** Maps each field to the first column whose name is one of its aliases. */
+export function guessMapping(columns: string[], target: ImportTarget): ColumnMapping {
+  const byKey = new Map(columns.map((column) => [headerKey(column), column]));
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS[target].forEach((field) => {
+    const alias = field.aliases.find((a) => byKey.has(a));
+    if (alias) mapping[field.key] = byKey.get(alias);
+  });
+  return mapping;
+}
+
+function parseWithFormats(value: string, formats: string[]) {
+  for (const pattern of formats) {
+    const parsed = parse(value, pattern, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+  const parsed = new Date(value);
+  return isValid(parsed) ? parsed : null;
+}
+
+function parseNumber(value: string) {
+  const parsed = Number(value.replace(/%$/, ""));
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Reads mapped values, trimmed; empty cells count as missing.
+function reader(row: Record<string, string>, mapping: ColumnMapping) {
+  return (key: string) => {
+    const column = mapping[key];
+    const value = column ? row[column]?.trim() : undefined;
+    return value || undefined;
+  };
+}
+
+function readPlate(value: string | undefined, region: PlateRegion, errors: string[]) {
+  if (!value || !compactPlate(value)) {
+    errors.push("Missing plate");
+    return null;
+  }
+  return { rawPlateNumber: value, ...normalizePlate(value, region) };
+}
+
+/** Validates and normalizes rows for the scan log. Duplicates share a plate and time to the second. */
+export function validateScanRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  context: ImportContext
+): ImportRow<ScanResult>[] {
+  const zonesByName = new Map<string, ParkingZone>();
+  context.zones.forEach((zone) => {
+    zonesByName.set(zone.name.toLowerCase(), zone);
+    const label = context.zoneLabels.get(zone.id);
+    if (label) zonesByName.set(label.toLowerCase(), zone);
+  });
+  const scanKey = (plateNumber: string, timestamp: string) => `${plateNumber}|${timestamp.slice(0, 19)}`;
+  const seen = new Set(context.existingScans.map((scan) => scanKey(scan.plateNumber, scan.timestamp)));
+
+  return table.rows.map((row, i) => {
+    const read = reader(row, mapping);
+    const errors: string[] = [];
+    const plate = readPlate(read("plateNumber"), context.region, errors);
+
+    const timeText = read("timestamp");
+    const at = timeText ? parseWithFormats(timeText, TIMESTAMP_FORMATS) : null;
+    if (!timeText) errors.push("Missing time");
+    else if (!at) errors.push(`Unreadable time "${timeText}"`);
+
+    const confidenceText = read("confidence");
+    let confidence = confidenceText === undefined ? undefined : parseNumber(confidenceText);
+    // Percentages are accepted as well as fractions.
+    if (confidence !== undefined && confidence !== null && confidence > 1) confidence /= 100;
+    if (confidence === null || (confidence !== undefined && (confidence < 0 || confidence > 1))) {
+      errors.push(`Confidence "${confidenceText}" is not between 0 and 1 or 0% and 100%`);
+    }
+
+    const zoneText = read("zone");
+    const zone = zoneText ? zonesByName.get(zoneText.toLowerCase()) : undefined;
+    if (zoneText && !zone) errors.push(`Unknown zone "${zoneText}"`);
+
+    const latitude = read("latitude");
+    const longitude = read("longitude");
+    const lat = latitude === undefined ? undefined : parseNumber(latitude);
+    const lng = longitude === undefined ? undefined : parseNumber(longitude);
+    if ((latitude || longitude) && (lat == null || lng == null || Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+      errors.push("Location needs a valid latitude and longitude");
+    }
+
+    if (errors.length > 0 || !plate || !at) return { line: i + 1, errors, duplicate: false };
+
+    const timestamp = at.toISOString();
+    const key = scanKey(plate.plateNumber, timestamp);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    const match = matchPlate(plate.plateNumber, context.listEntries, { at });
+    const tags = read("tags")
+      ?.split(/[;,]/)
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean);
+    const record: ScanResult = {
+      id: newId(),
+      plateNumber: plate.plateNumber,
+      rawPlateNumber: plate.rawPlateNumber,
+      timestamp,
+      confidence: confidence ?? undefined,
+      operatorName: read("operatorName"),
+      verdict: match.verdict,
+      listEntryId: match.entry?.id,
+      siteId: zone?.siteId,
+      levelId: zone?.levelId,
+      zoneId: zone?.id,
+      location: lat != null && lng != null ? { latitude: lat, longitude: lng, accuracy: 0 } : undefined,
+      notes: read("notes"),
+      tags: tags && tags.length > 0 ? tags : undefined,
+      ...(!plate.formatValid && { invalidFormat: true }),
+    };
+    return { line: i + 1, record, errors, duplicate };
+  });
+}
+
+/** Validates and normalizes rows for the plate lists. Duplicates share a plate and list. */
+export function validatePermitRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  context: ImportContext
+): ImportRow<PlateListEntry>[] {
+  const entryKey = (plateNumber: string, list: PlateListKind) => `${list}|${plateNumber}`;
+  const seen = new Set(context.listEntries.map((entry) => entryKey(entry.plateNumber, entry.list)));
+  const createdAt = new Date().toISOString();
+
+  return table.rows.map((row, i) => {
+    const read = reader(row, mapping);
+    const errors: string[] = [];
+    const plate = readPlate(read("plateNumber"), context.region, errors);
+
+    const listText = read("list");
+    const list = listText ? LIST_NAMES[headerKey(listText)] : "permit";
+    if (!list) errors.push(`Unknown list "${listText}"`);
+
+    const readDate = (key: string, label: string) => {
+      const text = read(key);
+      if (!text) return undefined;
+      const parsed = parseWithFormats(text, DATE_FORMATS);
+      if (!parsed) errors.push(`Unreadable ${label} date "${text}"`);
+      return parsed ? format(parsed, "yyyy-MM-dd") : undefined;
+    };
+    const validFrom = readDate("validFrom", "start");
+    const validUntil = readDate("validUntil", "expiry");
+    if (validFrom && validUntil && validFrom > validUntil) errors.push("Expiry is before the start date");
+
+    if (errors.length > 0 || !plate || !list) return { line: i + 1, errors, duplicate: false };
+
+    const key = entryKey(plate.plateNumber, list);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    const expectedVehicle: ExpectedVehicle = {};
+    VEHICLE_ATTRIBUTE_NAMES.forEach((name) => {
+      const value = read(name);
+      if (value) expectedVehicle[name] = value;
+    });
+    const record: PlateListEntry = {
+      id: newId(),
+      plateNumber: plate.plateNumber,
+      list,
+      validFrom,
+      validUntil,
+      notes: read("notes"),
+      expectedVehicle: Object.keys(expectedVehicle).length > 0 ? expectedVehicle : undefined,
+      createdAt,
+    };
+    return { line: i + 1, record, errors, duplicate };
+  });
+}
@@ -0,0 +1,5 @@
+import { LIST_ENTRIES_STORE } from "@/lib/db";
+import { createIndexedDbStoreRepository } from "@/lib/store-repository";
+import { type PlateListEntry } from "@/lib/types";
+
+export const listRepository = createIndexedDbStoreRepository<PlateListEntry>(LIST_ENTRIES_STORE);
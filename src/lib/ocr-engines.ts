@@ -0,0 +1,76 @@
+import { initiateScanWithPrompt, type DetectedPlate } from "@/ai/flows/initiate-scan-with-prompt";
+import { prepareOnDeviceOcr, readPlatesOnDevice } from "@/lib/on-device-ocr";
+
+export type OcrEngine = {
+  id: string;
+  name: string;
+  /** Runs in the browser, so it keeps working without a connection. */
+  onDevice: boolean;
+  recognize(photoDataUri: string): Promise<DetectedPlate[]>;
+  /** Loads whatever the engine needs ahead of its first read. */
+  prepare?(): Promise<void>;
+};
+
+/** How a capture picks its engines; later engines are tried only when earlier ones fail. */
+export type OcrPolicy = "prefer-local" | "prefer-cloud" | "cloud-with-fallback";
+
+export const OCR_POLICIES: { id: OcrPolicy; name: string; description: string }[] = [
+  {
+    id: "cloud-with-fallback",
+    name: "Cloud, on-device fallback",
+    description: "Reads on the device when the cloud can't be reached.",
+  },
+  {
+    id: "prefer-cloud",
+    name: "Cloud only",
+    description: "Captures taken offline wait for a connection.",
+  },
+  {
+    id: "prefer-local",
+    name: "On-device first",
+    description: "Uses the cloud only when the device can't read the frame.",
+  },
+];
+
+const engines = new Map<string, OcrEngine>();
+
+export function registerOcrEngine(engine: OcrEngine) {
+  engines.set(engine.id, engine);
+}
+
+export function getOcrEngine(id: string): OcrEngine | undefined {
+  return engines.get(id);
+}
+
+/** The engines a policy tries, in order. */
+export function ocrEnginesFor(policy: OcrPolicy): OcrEngine[] {
+  const all = Array.from(engines.values());
+  const cloud = all.find((engine) => !engine.onDevice);
+  const local = all.find((engine) => engine.onDevice);
+  const order =
+    policy === "prefer-local" ? [local, cloud] : policy === "prefer-cloud" ? [cloud] : [cloud, local];
+  return order.filter((engine): engine is OcrEngine => !!engine);
+}
+
+/** Warms up the on-device engines a policy may fall back to, while there is a connection to load them. */
+export async function prepareOcrEngines(policy: OcrPolicy) {
+  await Promise.all(ocrEnginesFor(policy).map((engine) => engine.prepare?.()));
+}
+
+registerOcrEngine({
+  id: "gemini",
+  name: "Gemini",
+  onDevice: false,
+  async recognize(photoDataUri) {
+    const result = await initiateScanWithPrompt({ photoDataUri });
+    return result.plates;
+  },
+});
+
+registerOcrEngine({
+  id: "tesseract",
+  name: "On-device",
+  onDevice: true,
+  recognize: readPlatesOnDevice,
+  prepare: prepareOnDeviceOcr,
+});
@@ -0,0 +1,186 @@
+import { OCR_QUEUE_STORE, openDatabase, promisifyRequest, transactionDone } from "@/lib/db";
+import { blobToDataUri, dataUriToBlob } from "@/lib/evidence";
+import { type OcrPolicy } from "@/lib/ocr-engines";
+import { listRepository } from "@/lib/list-repository";
+import { getPlateRegion } from "@/lib/plate-formats";
+import { recognizeCapture } from "@/lib/plate-recognition";
+import { logPlateReads, type ScanStamp } from "@/lib/scan-logging";
+import { recordOverstays } from "@/lib/chalking";
+
+/** Captures that failed this many times stop retrying until the operator asks. */
+export const MAX_OCR_ATTEMPTS = 5;
+// A failed capture waits this long before the next attempt.
+const RETRY_DELAY_MS = 30 * 1000;
+
+/** Frames captured without a connection, with everything needed to log them later. */
+export type PendingCapture = {
+  id: string;
+  capturedAt: string;
+  frames: Blob[];
+  /** Scan settings at capture time. */
+  regionId: string;
+  quorum: number;
+  ocrPolicy: OcrPolicy;
+  stamp: ScanStamp;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+};
+
+export interface OcrQueueRepository {
+  enqueue(frames: string[], options: Pick<PendingCapture, "regionId" | "quorum" | "ocrPolicy" | "stamp">): Promise<void>;
+  /** Oldest first. */
+  getAll(): Promise<PendingCapture[]>;
+  recordFailure(id: string, error: string): Promise<void>;
+  /** Clears the failure count so a capture that gave up is tried again. */
+  retry(id: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  subscribe(listener: () => void): () => void;
+}
+
+function createOcrQueueRepository(): OcrQueueRepository {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const modify = async (id: string, change: (capture: PendingCapture) => PendingCapture) => {
+    const db = await openDatabase();
+    const tx = db.transaction(OCR_QUEUE_STORE, "readwrite");
+    const store = tx.objectStore(OCR_QUEUE_STORE);
+    const capture: PendingCapture | undefined = await promisifyRequest(store.get(id));
+    if (capture) store.put(change(capture));
+    await transactionDone(tx);
+    notify();
+  };
+
+  return {
+    async enqueue(frames, options) {
+      const blobs = await Promise.all(frames.map(dataUriToBlob));
+      const db = await openDatabase();
+      const tx = db.transaction(OCR_QUEUE_STORE, "readwrite");
+      const capture: PendingCapture = {
+        id: Math.random().toString(36).substr(2, 9),
+        capturedAt: new Date().toISOString(),
+        frames: blobs,
+        ...options,
+        attempts: 0,
+      };
+      tx.objectStore(OCR_QUEUE_STORE).put(capture);
+      await transactionDone(tx);
+      notify();
+    },
+
+    async getAll() {
+      const db = await openDatabase();
+      const captures: PendingCapture[] = await promisifyRequest(
+        db.transaction(OCR_QUEUE_STORE).objectStore(OCR_QUEUE_STORE).getAll()
+      );
+      return captures.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+    },
+
+    recordFailure(id, error) {
+      return modify(id, (capture) => ({
+        ...capture,
+        attempts: capture.attempts + 1,
+        lastAttemptAt: new Date().toISOString(),
+        lastError: error,
+      }));
+    },
+
+    retry(id) {
+      return modify(id, ({ lastAttemptAt, lastError, ...capture }) => ({ ...capture, attempts: 0 }));
+    },
+
+    async delete(id) {
+      const db = await openDatabase();
+      const tx = db.transaction(OCR_QUEUE_STORE, "readwrite");
+      tx.objectStore(OCR_QUEUE_STORE).delete(id);
+      await transactionDone(tx);
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export const ocrQueueRepository = createOcrQueueRepository();
+
+const isDue = (capture: PendingCapture, now: number) =>
+  capture.attempts < MAX_OCR_ATTEMPTS &&
+  (!capture.lastAttemptAt || now - Date.parse(capture.lastAttemptAt) >= RETRY_DELAY_MS);
+
+/**
+ * Sends queued captures for OCR whenever the device is online, logging the
+ * plates they contain under the time they were captured. Failures are retried
+ * after a delay, but going offline mid-run doesn't count as one.
+ * Returns a function that stops processing.
+ */
+export function startOcrQueue(): () => void {
+  let stopped = false;
+  let running = false;
+  let runAgain = false;
+
+  const processCapture = async (capture: PendingCapture) => {
+    try {
+      const [frames, listEntries] = await Promise.all([
+        Promise.all(capture.frames.map(blobToDataUri)),
+        listRepository.getAll(),
+      ]);
+      const plates = await recognizeCapture(frames, {
+        region: getPlateRegion(capture.regionId),
+        quorum: capture.quorum,
+        policy: capture.ocrPolicy,
+        listEntries,
+        at: new Date(capture.capturedAt),
+      });
+      if (plates.length > 0) {
+        const scans = await logPlateReads(plates, capture.capturedAt, capture.stamp);
+        await recordOverstays(scans).catch(() => []);
+      }
+      await ocrQueueRepository.delete(capture.id);
+    } catch (e) {
+      if (!navigator.onLine) return;
+      await ocrQueueRepository.recordFailure(capture.id, e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const run = async () => {
+    if (stopped || !navigator.onLine) return;
+    if (running) {
+      runAgain = true;
+      return;
+    }
+
+    running = true;
+    try {
+      do {
+        runAgain = false;
+        const now = Date.now();
+        for (const capture of await ocrQueueRepository.getAll()) {
+          if (stopped || !navigator.onLine) return;
+          if (isDue(capture, now)) await processCapture(capture);
+        }
+      } while (runAgain);
+    } catch (e) {
+      // The queue couldn't be read or updated; the next tick or reconnect tries again.
+    } finally {
+      running = false;
+    }
+  };
+
+  window.addEventListener("online", run);
+  const unsubscribe = ocrQueueRepository.subscribe(run);
+  const timer = setInterval(run, RETRY_DELAY_MS);
+  run();
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    clearInterval(timer);
+    window.removeEventListener("online", run);
+  };
+}
@@ -0,0 +1,91 @@
+import { type BoundingBox, type DetectedPlate } from "@/ai/flows/initiate-scan-with-prompt";
+import { dataUriToBlob } from "@/lib/evidence";
+import { compactPlate } from "@/lib/plate-formats";
+import type Tesseract from "tesseract.js";
+
+// Where the Tesseract worker, WASM cores and language data are served from.
+// They are copied into public/ocr before each build, so by default they come
+// from the app's own origin and the service worker can cache them.
+const ASSETS_URL = process.env.NEXT_PUBLIC_OCR_ASSETS_URL || "/ocr";
+const PLATE_CHARACTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+// Text lines outside this length are signage or noise rather than plates.
+const MIN_PLATE_LENGTH = 4;
+const MAX_PLATE_LENGTH = 10;
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+
+function getWorker() {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const { createWorker, PSM } = await import("tesseract.js");
+      // A worker started from its own URL stays under the service worker; one
+      // hosted on another origin can only be started through a blob URL.
+      const worker = await createWorker("eng", undefined, {
+        workerPath: `${ASSETS_URL}/worker.min.js`,
+        workerBlobURL: !ASSETS_URL.startsWith("/"),
+        corePath: ASSETS_URL,
+        langPath: ASSETS_URL,
+      });
+      await worker.setParameters({
+        tessedit_pageseg_mode: PSM.SPARSE_TEXT,
+        tessedit_char_whitelist: PLATE_CHARACTERS,
+      });
+      return worker;
+    })();
+    // A load that failed, e.g. offline before the model was cached, is retried on the next read.
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+async function imageSize(photoDataUri: string) {
+  const bitmap = await createImageBitmap(await dataUriToBlob(photoDataUri));
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+const isPlateLike = (text: string) =>
+  text.length >= MIN_PLATE_LENGTH && text.length <= MAX_PLATE_LENGTH && /[A-Z]/.test(text) && /[0-9]/.test(text);
+
+/** Downloads and starts the recognizer, so the first read doesn't wait for it. */
+export async function prepareOnDeviceOcr() {
+  await getWorker();
+}
+
+/**
+ * Reads plates in the browser with Tesseract. Every text line made of plate
+ * characters, mixing letters and digits, is taken as a plate; there is no
+ * vehicle detection, so reads carry no vehicle attributes.
+ */
+export async function readPlatesOnDevice(photoDataUri: string): Promise<DetectedPlate[]> {
+  const worker = await getWorker();
+  const [{ data }, { width, height }] = await Promise.all([
+    worker.recognize(photoDataUri, {}, { blocks: true }),
+    imageSize(photoDataUri),
+  ]);
+
+  const lines = (data.blocks ?? []).flatMap((block) => block.paragraphs.flatMap((paragraph) => paragraph.lines));
+  return lines
+    .filter((line) => isPlateLike(compactPlate(line.text)))
+    .map((line) => {
+      const boundingBox: BoundingBox = {
+        x: line.bbox.x0 / width,
+        y: line.bbox.y0 / height,
+        width: (line.bbox.x1 - line.bbox.x0) / width,
+        height: (line.bbox.y1 - line.bbox.y0) / height,
+      };
+      return {
+        plateNumber: line.words.map((word) => word.text).join(" "),
+        confidence: line.confidence / 100,
+        characters: line.words
+          .flatMap((word) => word.symbols)
+          .filter((symbol) => symbol.text.trim())
+          .map((symbol) => ({ char: symbol.text, confidence: symbol.confidence / 100 })),
+        boundingBox,
+      };
+    })
+    .sort((a, b) => a.boundingBox.x - b.boundingBox.x);
+}
@@ -0,0 +1,141 @@
+import { type BoundingBox, type DetectedPlate, type VehicleAttributes } from "@/ai/flows/initiate-scan-with-prompt";
+import { type PlateRead } from "@/lib/types";
+import { VEHICLE_ATTRIBUTE_NAMES } from "@/lib/vehicle-attributes";
+
+export type ConsensusFields = {
+  /** Share of burst frames agreeing with each consensus character, averaged over the plate (0-1). */
+  agreement: number;
+  /** Number of burst frames in which this plate was read at all. */
+  frameCount: number;
+  reachedQuorum: boolean;
+};
+
+// Boxes overlapping at least this much across frames are taken to be the same plate.
+const SAME_PLATE_IOU = 0.3;
+
+function intersectionOverUnion(a: BoundingBox, b: BoundingBox) {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const intersection = w * h;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function charactersOf(plate: DetectedPlate) {
+  if (plate.characters.length > 0) {
+    return plate.characters.map((c) => ({ char: c.char.toUpperCase(), confidence: c.confidence }));
+  }
+  return plate.plateNumber
+    .replace(/\s+/g, "")
+    .split("")
+    .map((char) => ({ char, confidence: plate.confidence }));
+}
+
+type Member = { frame: number; slot: number; plate: DetectedPlate };
+
+// Groups reads of the same physical plate across frames. Plates are matched by
+// box overlap, or by their left-to-right slot when the model gave no box.
+function clusterReads(frames: DetectedPlate[][]) {
+  const clusters: Member[][] = [];
+  frames.forEach((plates, frame) => {
+    plates.forEach((plate, slot) => {
+      const match = clusters.find((cluster) => {
+        if (cluster.some((m) => m.frame === frame)) return false;
+        const ref = cluster[0];
+        if (plate.boundingBox && ref.plate.boundingBox) {
+          return intersectionOverUnion(plate.boundingBox, ref.plate.boundingBox) >= SAME_PLATE_IOU;
+        }
+        return ref.slot === slot;
+      });
+      if (match) match.push({ frame, slot, plate });
+      else clusters.push([{ frame, slot, plate }]);
+    });
+  });
+  return clusters;
+}
+
+function pickWinner<K>(tally: Map<K, { count: number; weight: number }>) {
+  let best: [K, { count: number; weight: number }] | null = null;
+  for (const entry of tally) {
+    if (
+      !best ||
+      entry[1].count > best[1].count ||
+      (entry[1].count === best[1].count && entry[1].weight > best[1].weight)
+    ) {
+      best = entry;
+    }
+  }
+  return best!;
+}
+
+// Each attribute goes to the value most frames agree on, compared case-insensitively.
+// Its confidence is the summed confidence for that value over the frames that read the plate.
+function voteVehicle(members: Member[]): VehicleAttributes | undefined {
+  const vehicle: VehicleAttributes = {};
+  for (const name of VEHICLE_ATTRIBUTE_NAMES) {
+    const tally = new Map<string, { count: number; weight: number }>();
+    const spelling = new Map<string, string>();
+    members.forEach(({ plate }) => {
+      const attribute = plate.vehicle?.[name];
+      if (!attribute) return;
+      const key = attribute.value.toLowerCase();
+      const entry = tally.get(key) ?? { count: 0, weight: 0 };
+      tally.set(key, { count: entry.count + 1, weight: entry.weight + attribute.confidence });
+      if (!spelling.has(key)) spelling.set(key, attribute.value);
+    });
+    if (tally.size === 0) continue;
+    const [key, { weight }] = pickWinner(tally);
+    vehicle[name] = { value: spelling.get(key)!, confidence: weight / members.length };
+  }
+  return Object.keys(vehicle).length > 0 ? vehicle : undefined;
+}
+
+function voteCluster(members: Member[], totalFrames: number, quorum: number): DetectedPlate & ConsensusFields {
+  const reads = members.map((m) => charactersOf(m.plate));
+
+  // Vote on the plate length first so one dropped character doesn't shift every position.
+  const lengths = new Map<number, { count: number; weight: number }>();
+  members.forEach((m, i) => {
+    const entry = lengths.get(reads[i].length) ?? { count: 0, weight: 0 };
+    lengths.set(reads[i].length, { count: entry.count + 1, weight: entry.weight + m.plate.confidence });
+  });
+  const [length] = pickWinner(lengths);
+  const voters = reads.filter((read) => read.length === length);
+
+  const characters = Array.from({ length }, (_, position) => {
+    const tally = new Map<string, { count: number; weight: number }>();
+    voters.forEach((read) => {
+      const { char, confidence } = read[position];
+      const entry = tally.get(char) ?? { count: 0, weight: 0 };
+      tally.set(char, { count: entry.count + 1, weight: entry.weight + confidence });
+    });
+    const [char, { count }] = pickWinner(tally);
+    return { char, confidence: count / totalFrames };
+  });
+
+  const agreement =
+    characters.length > 0 ? characters.reduce((sum, c) => sum + c.confidence, 0) / characters.length : 0;
+  const best = members.reduce((a, b) => (b.plate.confidence > a.plate.confidence ? b : a));
+
+  return {
+    plateNumber: characters.map((c) => c.char).join(""),
+    confidence: agreement,
+    characters,
+    boundingBox: best.plate.boundingBox,
+    vehicle: voteVehicle(members),
+    agreement,
+    frameCount: members.length,
+    reachedQuorum:
+      members.length / totalFrames >= quorum && characters.every((c) => c.confidence >= quorum),
+  };
+}
+
+/**
+ * Merges per-frame reads from a burst into one consensus read per plate using
+ * per-position character voting. Character confidences in the result are the
+ * share of frames that voted for that character.
+ */
+export function mergeBurstReads(frames: DetectedPlate[][], quorum: number): PlateRead[] {
+  if (frames.length === 0) return [];
+  return clusterReads(frames).map((members) => voteCluster(members, frames.length, quorum));
+}
@@ -0,0 +1,149 @@
+import { type DetectedPlate } from "@/ai/flows/initiate-scan-with-prompt";
+
+export type PlateFormat = {
+  name: string;
+  /**
+   * One token per position: "A" a letter, "9" a digit, "*" either. Any other
+   * character must appear literally, e.g. "99BH9999AA".
+   */
+  template: string;
+};
+
+export type PlateRegion = {
+  id: string;
+  name: string;
+  formats: PlateFormat[];
+  /** Accepts plates that match none of `formats`, for regions without fixed layouts. */
+  pattern?: RegExp;
+};
+
+export type FormatFields = {
+  /** The plate text exactly as OCR returned it. */
+  rawPlateNumber: string;
+  formatValid: boolean;
+  /** Name of the matched format, when one matched. */
+  formatName?: string;
+};
+
+// Letters and digits OCR commonly swaps, used only where the format pins a
+// position to the other class.
+const DIGIT_TO_LETTER: Record<string, string> = {
+  "0": "O", "1": "I", "2": "Z", "4": "A", "5": "S", "6": "G", "7": "T", "8": "B",
+};
+const LETTER_TO_DIGIT: Record<string, string> = {
+  O: "0", Q: "0", D: "0", I: "1", L: "1", Z: "2", A: "4", S: "5", G: "6", T: "7", B: "8",
+};
+
+const isLetter = (c: string) => c >= "A" && c <= "Z";
+const isDigit = (c: string) => c >= "0" && c <= "9";
+
+const regions = new Map<string, PlateRegion>();
+
+export function registerPlateRegion(region: PlateRegion) {
+  regions.set(region.id, region);
+}
+
+export function getPlateRegion(id: string): PlateRegion {
+  return regions.get(id) ?? regions.get("generic")!;
+}
+
+export function listPlateRegions(): PlateRegion[] {
+  return Array.from(regions.values());
+}
+
+registerPlateRegion({
+  id: "generic",
+  name: "Any format",
+  formats: [],
+  pattern: /^[A-Z0-9]{2,10}$/,
+});
+
+registerPlateRegion({
+  id: "IN",
+  name: "India",
+  formats: [
+    { name: "Standard", template: "AA99A9999" },
+    { name: "Standard", template: "AA99AA9999" },
+    { name: "Standard", template: "AA99AAA9999" },
+    { name: "Standard (no series)", template: "AA999999" },
+    { name: "Bharat series", template: "99BH9999A" },
+    { name: "Bharat series", template: "99BH9999AA" },
+  ],
+});
+
+registerPlateRegion({
+  id: "GB",
+  name: "United Kingdom",
+  formats: [
+    { name: "Current", template: "AA99AAA" },
+    { name: "Prefix", template: "A9AAA" },
+    { name: "Prefix", template: "A99AAA" },
+    { name: "Prefix", template: "A999AAA" },
+    { name: "Suffix", template: "AAA9A" },
+    { name: "Suffix", template: "AAA99A" },
+    { name: "Suffix", template: "AAA999A" },
+  ],
+});
+
+/** Uppercases and drops separators, so "mh 12-ab.1234" becomes "MH12AB1234". */
+export function compactPlate(text: string) {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Returns the plate fitted to the template, or null if it can't be made to fit.
+function applyTemplate(compact: string, template: string) {
+  if (compact.length !== template.length) return null;
+  let corrections = 0;
+  let text = "";
+  for (let i = 0; i < compact.length; i++) {
+    const c = compact[i];
+    const token = template[i];
+    let fitted: string | undefined;
+    if (token === "*") fitted = c;
+    else if (token === "A") fitted = isLetter(c) ? c : DIGIT_TO_LETTER[c];
+    else if (token === "9") fitted = isDigit(c) ? c : LETTER_TO_DIGIT[c];
+    else fitted = c === token || DIGIT_TO_LETTER[c] === token || LETTER_TO_DIGIT[c] === token ? token : undefined;
+    if (fitted === undefined) return null;
+    if (fitted !== c) corrections++;
+    text += fitted;
+  }
+  return { text, corrections };
+}
+
+/**
+ * Fits a plate to the region's formats, correcting confusable characters by
+ * position. The format needing the fewest corrections wins.
+ */
+export function normalizePlate(raw: string, region: PlateRegion) {
+  const compact = compactPlate(raw);
+  let best: { text: string; corrections: number; format: PlateFormat } | null = null;
+  for (const format of region.formats) {
+    const fitted = applyTemplate(compact, format.template);
+    if (fitted && (!best || fitted.corrections < best.corrections)) {
+      best = { ...fitted, format };
+    }
+  }
+  if (best) {
+    return { plateNumber: best.text, formatValid: true, formatName: best.format.name };
+  }
+  return { plateNumber: compact, formatValid: region.pattern?.test(compact) ?? false };
+}
+
+/** Normalizes a detected plate, keeping its per-character confidences aligned. */
+export function normalizeRead<T extends DetectedPlate>(plate: T, region: PlateRegion): T & FormatFields {
+  const { plateNumber, formatValid, formatName } = normalizePlate(plate.plateNumber, region);
+  const kept = plate.characters.filter((c) => compactPlate(c.char).length === 1);
+  const aligned = kept.map((c) => compactPlate(c.char)).join("") === compactPlate(plate.plateNumber);
+  const characters = plateNumber.split("").map((char, i) => ({
+    char,
+    confidence: aligned ? kept[i].confidence : plate.confidence,
+  }));
+  return {
+    ...plate,
+    plateNumber,
+    characters,
+    rawPlateNumber: plate.plateNumber,
+    formatValid,
+    formatName,
+  };
+}
@@ -0,0 +1,89 @@
+import { format } from "date-fns";
+import { compactPlate } from "@/lib/plate-formats";
+import { type ListMatch, type ListVerdict, type PlateListEntry } from "@/lib/types";
+import { findVehicleMismatches } from "@/lib/vehicle-attributes";
+import { type VehicleAttributes } from "@/ai/flows/initiate-scan-with-prompt";
+
+// Characters OCR commonly confuses collapse to one representative, so a
+// misread still hits the list entry it was meant to.
+const CONFUSABLE: Record<string, string> = {
+  O: "0", Q: "0", D: "0",
+  I: "1", L: "1",
+  Z: "2",
+  S: "5",
+  B: "8",
+  G: "6",
+};
+
+export function confusableKey(plate: string) {
+  return compactPlate(plate)
+    .split("")
+    .map((c) => CONFUSABLE[c] ?? c)
+    .join("");
+}
+
+/**
+ * Log search: the query matches anywhere in the plate (or its raw OCR text),
+ * treating confusable characters as equal. Queries of four or more characters
+ * also tolerate one wrong character.
+ */
+export function plateMatchesQuery(plateNumber: string, query: string) {
+  const q = confusableKey(query);
+  if (!q) return true;
+  const plate = confusableKey(plateNumber);
+  if (plate.includes(q)) return true;
+  if (q.length < 4) return false;
+  for (let start = 0; start + q.length <= plate.length; start++) {
+    let misses = 0;
+    for (let i = 0; i < q.length && misses <= 1; i++) {
+      if (plate[start + i] !== q[i]) misses++;
+    }
+    if (misses <= 1) return true;
+  }
+  return false;
+}
+
+const VERDICT_RANK: ListVerdict[] = ["banned", "watch", "permit", "expired", "unlisted"];
+
+/** Whether the entry applies on the given day. Bounds are inclusive local dates. */
+export function isEntryActive(entry: PlateListEntry, at: Date) {
+  const day = format(at, "yyyy-MM-dd");
+  if (entry.validFrom && day < entry.validFrom.slice(0, 10)) return false;
+  if (entry.validUntil && day > entry.validUntil.slice(0, 10)) return false;
+  return true;
+}
+
+/**
+ * Checks a plate against every list. The most serious active entry wins; an
+ * exact match beats a fuzzy one with the same verdict. A permit that exists
+ * but is outside its validity dates yields "expired". When the winning entry
+ * describes its vehicle, a contradicting read is reported as a mismatch.
+ */
+export function matchPlate(
+  plateNumber: string,
+  entries: PlateListEntry[],
+  { at = new Date(), vehicle }: { at?: Date; vehicle?: VehicleAttributes } = {}
+): ListMatch {
+  const exact = compactPlate(plateNumber);
+  const fuzzy = confusableKey(plateNumber);
+
+  let best: ListMatch = { verdict: "unlisted", fuzzy: false };
+  for (const entry of entries) {
+    const isExact = entry.plateNumber === exact;
+    if (!isExact && confusableKey(entry.plateNumber) !== fuzzy) continue;
+
+    const verdict: ListVerdict = isEntryActive(entry, at)
+      ? entry.list
+      : entry.list === "permit"
+        ? "expired"
+        : "unlisted";
+    const rank = VERDICT_RANK.indexOf(verdict);
+    const bestRank = VERDICT_RANK.indexOf(best.verdict);
+    if (rank < bestRank || (rank === bestRank && isExact && best.fuzzy)) {
+      best = verdict === "unlisted" ? best : { verdict, entry, fuzzy: !isExact };
+    }
+  }
+
+  const mismatches = best.entry?.expectedVehicle && vehicle && findVehicleMismatches(best.entry.expectedVehicle, vehicle);
+  return mismatches && mismatches.length > 0 ? { ...best, vehicleMismatches: mismatches } : best;
+}
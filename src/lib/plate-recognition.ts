@@ -0,0 +1,67 @@
+import { ocrEnginesFor, type OcrEngine, type OcrPolicy } from "@/lib/ocr-engines";
+import { mergeBurstReads } from "@/lib/plate-consensus";
+import { normalizeRead, type PlateRegion } from "@/lib/plate-formats";
+import { matchPlate } from "@/lib/plate-matching";
+import { type PlateListEntry, type PlateRead } from "@/lib/types";
+
+export type RecognitionOptions = {
+  region: PlateRegion;
+  /** Share of a burst's frames that must agree on a read. */
+  quorum: number;
+  listEntries: PlateListEntry[];
+  /** Which OCR engines to use, and in what order. */
+  policy: OcrPolicy;
+  /** When the frames were captured, for checking list validity dates. */
+  at?: Date;
+};
+
+async function readFrames(engine: OcrEngine, frames: string[], quorum: number): Promise<PlateRead[]> {
+  if (frames.length === 1) return engine.recognize(frames[0]);
+
+  const reads = await Promise.allSettled(frames.map((frame) => engine.recognize(frame)));
+  const succeeded = reads.flatMap((read) => (read.status === "fulfilled" ? [read.value] : []));
+  if (succeeded.length === 0) throw (reads[0] as PromiseRejectedResult).reason;
+  const padded = [...succeeded, ...Array.from({ length: frames.length - succeeded.length }, () => [])];
+  return mergeBurstReads(padded, quorum);
+}
+
+/**
+ * Reads the plates in a capture with the first engine of the policy that
+ * finds any; an engine that reads nothing passes the capture on to the next,
+ * and it counts as empty only once every engine has had it. A single frame is
+ * taken as read; a burst is voted on, with failed frames counting against
+ * agreement. Every read is then normalized to the region's formats and checked
+ * against the lists, and keeps the first frame as its evidence photo. When
+ * every engine fails, the cloud engine's error is thrown, since that is the
+ * one worth retrying once back online.
+ */
+export async function recognizeCapture(frames: string[], options: RecognitionOptions): Promise<PlateRead[]> {
+  const failures: { engine: OcrEngine; error: unknown }[] = [];
+  let readNothing = false;
+  for (const engine of ocrEnginesFor(options.policy)) {
+    let plates: PlateRead[];
+    try {
+      plates = await readFrames(engine, frames, options.quorum);
+    } catch (error) {
+      failures.push({ engine, error });
+      continue;
+    }
+    if (plates.length === 0) {
+      readNothing = true;
+      continue;
+    }
+
+    return plates.map((plate) => {
+      const normalized = normalizeRead(plate, options.region);
+      const match = matchPlate(normalized.plateNumber, options.listEntries, {
+        at: options.at,
+        vehicle: normalized.vehicle,
+      });
+      return { ...normalized, match, photoDataUri: frames[0], engine: engine.id };
+    });
+  }
+
+  if (readNothing) return [];
+  const failure = failures.find(({ engine }) => !engine.onDevice) ?? failures[failures.length - 1];
+  throw failure ? failure.error : new Error("No OCR engine is available");
+}
@@ -0,0 +1,50 @@
+export const ROLES = ["operator", "supervisor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "scan"
+  | "viewLog"
+  | "editScans"
+  | "deleteScans"
+  | "clearHistory"
+  | "importScans"
+  | "manageLists"
+  | "viewViolations"
+  | "manageZones"
+  | "viewDashboard";
+
+const PERMISSIONS: Record<Role, Permission[]> = {
+  operator: ["scan", "viewLog", "editScans", "viewViolations"],
+  supervisor: [
+    "scan",
+    "viewLog",
+    "editScans",
+    "deleteScans",
+    "clearHistory",
+    "importScans",
+    "manageLists",
+    "viewViolations",
+    "manageZones",
+    "viewDashboard",
+  ],
+  admin: [
+    "scan",
+    "viewLog",
+    "editScans",
+    "deleteScans",
+    "clearHistory",
+    "importScans",
+    "manageLists",
+    "viewViolations",
+    "manageZones",
+    "viewDashboard",
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: Role, permission: Permission) {
+  return PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,176 @@
+// Plain statistics over scan sightings, shared by the Intelligence Report flow
+// and the dashboard. Hours and days are those of the Date's local time zone.
+
+export type ScanPoint = {
+  plateNumber: string;
+  at: Date;
+  zoneId?: string;
+  operator?: string;
+};
+
+export type Visit = {
+  plateNumber: string;
+  zoneId?: string;
+  start: Date;
+  end: Date;
+  sightings: number;
+};
+
+export type HourCount = { hour: number; scans: number };
+
+export type RepeatVisitor = { plateNumber: string; visits: number };
+
+export type DayCount = { day: string; scans: number };
+
+export type ZoneOccupancy = {
+  zoneId: string;
+  visits: number;
+  vehicles: number;
+  /** Most vehicles present at once, from overlapping visits. */
+  peak: number;
+};
+
+export type OperatorThroughput = {
+  operator: string;
+  scans: number;
+  /** Distinct clock hours in which the operator saved at least one scan. */
+  activeHours: number;
+  scansPerHour: number;
+};
+
+/** Sightings of a plate further apart than this start a new visit. */
+export const VISIT_GAP_MS = 2 * 60 * 60 * 1000;
+
+/** Splits each plate's sightings into visits, per zone, oldest first. */
+export function groupVisits(points: ScanPoint[]): Visit[] {
+  const sorted = [...points].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const open = new Map<string, Visit>();
+  const visits: Visit[] = [];
+
+  for (const point of sorted) {
+    const key = `${point.plateNumber}|${point.zoneId ?? ""}`;
+    const current = open.get(key);
+    if (current && point.at.getTime() - current.end.getTime() <= VISIT_GAP_MS) {
+      current.end = point.at;
+      current.sightings++;
+    } else {
+      const visit = { plateNumber: point.plateNumber, zoneId: point.zoneId, start: point.at, end: point.at, sightings: 1 };
+      open.set(key, visit);
+      visits.push(visit);
+    }
+  }
+  return visits;
+}
+
+export function uniquePlateCount(points: ScanPoint[]) {
+  return new Set(points.map((point) => point.plateNumber)).size;
+}
+
+/** Plates with more than one visit, most frequent first. */
+export function repeatVisitors(visits: Visit[], limit = 10): RepeatVisitor[] {
+  const counts = new Map<string, number>();
+  visits.forEach((visit) => counts.set(visit.plateNumber, (counts.get(visit.plateNumber) ?? 0) + 1));
+  return [...counts]
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([plateNumber, visits]) => ({ plateNumber, visits }));
+}
+
+/** Scan counts for each hour of the day, 0 to 23. */
+export function scansByHour(points: ScanPoint[]): HourCount[] {
+  const counts = Array.from({ length: 24 }, (_, hour) => ({ hour, scans: 0 }));
+  points.forEach((point) => counts[point.at.getHours()].scans++);
+  return counts;
+}
+
+/** The busiest hours, busiest first; quiet hours are never peaks. */
+export function peakHours(byHour: HourCount[], limit = 3) {
+  return [...byHour]
+    .filter((count) => count.scans > 0)
+    .sort((a, b) => b.scans - a.scans || a.hour - b.hour)
+    .slice(0, limit)
+    .map((count) => count.hour);
+}
+
+/**
+ * Mean time between first and last sighting, over visits seen at least twice.
+ * A single sighting says nothing about how long the vehicle stayed.
+ */
+export function averageDwellMinutes(visits: Visit[]): number | null {
+  const observed = visits.filter((visit) => visit.sightings > 1);
+  if (observed.length === 0) return null;
+  const total = observed.reduce((sum, visit) => sum + (visit.end.getTime() - visit.start.getTime()), 0);
+  return Math.round(total / observed.length / 60000);
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/** Scan counts for every day from `from` to `to` inclusive, including empty days. */
+export function scansByDay(points: ScanPoint[], from: Date, to: Date): DayCount[] {
+  const counts = new Map<string, number>();
+  for (const day = new Date(from.getFullYear(), from.getMonth(), from.getDate()); day <= to; day.setDate(day.getDate() + 1)) {
+    counts.set(dayKey(day), 0);
+  }
+  points.forEach((point) => {
+    const key = dayKey(point.at);
+    if (counts.has(key)) counts.set(key, counts.get(key)! + 1);
+  });
+  return [...counts].map(([day, scans]) => ({ day, scans }));
+}
+
+/** Visit totals and peak concurrent vehicles for each zone with sightings. */
+export function zoneOccupancy(visits: Visit[]): ZoneOccupancy[] {
+  const byZone = new Map<string, Visit[]>();
+  visits.forEach((visit) => {
+    if (!visit.zoneId) return;
+    byZone.set(visit.zoneId, [...(byZone.get(visit.zoneId) ?? []), visit]);
+  });
+
+  return [...byZone].map(([zoneId, zoneVisits]) => {
+    // Sweep arrivals and departures in time order; arrivals first on ties so touching visits overlap.
+    const events = zoneVisits
+      .flatMap((visit) => [
+        { at: visit.start.getTime(), change: 1 },
+        { at: visit.end.getTime(), change: -1 },
+      ])
+      .sort((a, b) => a.at - b.at || b.change - a.change);
+    let present = 0;
+    let peak = 0;
+    events.forEach((event) => {
+      present += event.change;
+      peak = Math.max(peak, present);
+    });
+    return {
+      zoneId,
+      visits: zoneVisits.length,
+      vehicles: new Set(zoneVisits.map((visit) => visit.plateNumber)).size,
+      peak,
+    };
+  });
+}
+
+/** Scans saved by each operator, busiest first. */
+export function operatorThroughput(points: ScanPoint[]): OperatorThroughput[] {
+  const byOperator = new Map<string, { scans: number; hours: Set<string> }>();
+  points.forEach((point) => {
+    const operator = point.operator ?? "Unknown";
+    const entry = byOperator.get(operator) ?? { scans: 0, hours: new Set<string>() };
+    entry.scans++;
+    entry.hours.add(`${dayKey(point.at)}T${point.at.getHours()}`);
+    byOperator.set(operator, entry);
+  });
+  return [...byOperator]
+    .map(([operator, { scans, hours }]) => ({
+      operator,
+      scans,
+      activeHours: hours.size,
+      scansPerHour: Math.round((scans / hours.size) * 10) / 10,
+    }))
+    .sort((a, b) => b.scans - a.scans);
+}
+
+export function formatHour(hour: number) {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
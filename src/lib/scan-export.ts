@@ -0,0 +1,80 @@
+import { format } from "date-fns";
+import { VEHICLE_ATTRIBUTE_NAMES } from "@/lib/vehicle-attributes";
+import { type ScanResult } from "@/lib/types";
+
+type CsvValue = string | number | boolean | undefined;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// One column per ScanResult field; nested values are flattened, lists joined with ";".
+const CSV_COLUMNS: [string, (scan: ScanResult, zoneLabels: Map<string, string>) => CsvValue][] = [
+  ["id", (s) => s.id],
+  ["plateNumber", (s) => s.plateNumber],
+  ["rawPlateNumber", (s) => s.rawPlateNumber],
+  ["originalPlateNumber", (s) => s.originalPlateNumber],
+  ["timestamp", (s) => s.timestamp],
+  ["updatedAt", (s) => s.updatedAt],
+  ["confidence", (s) => s.confidence],
+  ["ocrEngine", (s) => s.ocrEngine],
+  ["lowConfidence", (s) => s.lowConfidence],
+  ["invalidFormat", (s) => s.invalidFormat],
+  ["operatorId", (s) => s.operatorId],
+  ["operatorName", (s) => s.operatorName],
+  ["verdict", (s) => s.verdict],
+  ["listEntryId", (s) => s.listEntryId],
+  ["siteId", (s) => s.siteId],
+  ["levelId", (s) => s.levelId],
+  ["zoneId", (s) => s.zoneId],
+  ["zone", (s, zoneLabels) => (s.zoneId ? zoneLabels.get(s.zoneId) : undefined)],
+  ["latitude", (s) => s.location?.latitude],
+  ["longitude", (s) => s.location?.longitude],
+  ["locationAccuracy", (s) => s.location?.accuracy],
+  ["hasEvidence", (s) => s.hasEvidence],
+  ["sourceFileName", (s) => s.sourceFileName],
+  ...VEHICLE_ATTRIBUTE_NAMES.flatMap((name): typeof CSV_COLUMNS => [
+    [`vehicle${capitalize(name)}`, (s) => s.vehicle?.[name]?.value],
+    [`vehicle${capitalize(name)}Confidence`, (s) => s.vehicle?.[name]?.confidence],
+  ]),
+  ["vehicleMismatches", (s) => s.vehicleMismatches?.join(";")],
+  ["notes", (s) => s.notes],
+  ["tags", (s) => s.tags?.join(";")],
+  ["edits", (s) => (s.edits ? JSON.stringify(s.edits) : undefined)],
+];
+
+// Text starting with one of these runs as a formula in Excel and Sheets.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: CsvValue) {
+  if (value === undefined) return "";
+  // Operator-entered text such as notes is quoted out of formulas; numbers like negative longitudes are left alone.
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row, one scan per line. Text that would run as a spreadsheet formula is prefixed with `'`. */
+export function scansToCsv(scans: ScanResult[], zoneLabels: Map<string, string> = new Map()) {
+  const header = CSV_COLUMNS.map(([name]) => name).join(",");
+  const rows = scans.map((scan) => CSV_COLUMNS.map(([, read]) => csvCell(read(scan, zoneLabels))).join(","));
+  return [header, ...rows].join("\r\n");
+}
+
+export function scansToJson(scans: ScanResult[]) {
+  return JSON.stringify(scans, null, 2);
+}
+
+export function exportFileName(extension: string, at = new Date()) {
+  return `scan-log-${format(at, "yyyy-MM-dd-HHmm")}.${extension}`;
+}
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
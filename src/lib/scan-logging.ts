@@ -0,0 +1,42 @@
+import { scanRepository } from "@/lib/scan-repository";
+import { evidenceRepository } from "@/lib/evidence-repository";
+import { type PlateRead, type ScanResult } from "@/lib/types";
+
+/** Who took a capture and where, copied onto every scan logged from it. */
+export type ScanStamp = Pick<ScanResult, "operatorId" | "operatorName" | "siteId" | "levelId" | "zoneId" | "location" | "sourceFileName">;
+
+/** Saves plate reads to the log, with their evidence photos where possible. Returns the new scans. */
+export async function logPlateReads(plates: PlateRead[], timestamp: string, stamp: ScanStamp): Promise<ScanResult[]> {
+  const ids = plates.map(() => Math.random().toString(36).substr(2, 9));
+
+  // Evidence is best effort: a scan is still worth logging without its photo.
+  const evidenceSaved = await Promise.all(
+    plates.map((plate, i) =>
+      plate.photoDataUri
+        ? evidenceRepository.save(ids[i], plate.photoDataUri, plate.boundingBox, stamp.siteId).then(
+            () => true,
+            () => false
+          )
+        : false
+    )
+  );
+
+  const scans: ScanResult[] = plates.map((plate, i) => ({
+    id: ids[i],
+    plateNumber: plate.plateNumber,
+    rawPlateNumber: plate.rawPlateNumber,
+    timestamp,
+    confidence: plate.confidence,
+    ocrEngine: plate.engine,
+    verdict: plate.match?.verdict,
+    listEntryId: plate.match?.entry?.id,
+    vehicle: plate.vehicle,
+    vehicleMismatches: plate.match?.vehicleMismatches,
+    ...stamp,
+    ...(evidenceSaved[i] && { hasEvidence: true }),
+    ...(plate.reachedQuorum === false && { lowConfidence: true }),
+    ...(plate.formatValid === false && { invalidFormat: true }),
+  }));
+  await scanRepository.add(scans);
+  return scans;
+}
@@ -0,0 +1,199 @@
+import { format } from "date-fns";
+import { evidenceRepository } from "@/lib/evidence-repository";
+import {
+  averageDwellMinutes,
+  formatHour,
+  groupVisits,
+  peakHours,
+  scansByHour,
+  uniquePlateCount,
+  type ScanPoint,
+} from "@/lib/scan-analytics";
+import { type ListVerdict, type ScanResult } from "@/lib/types";
+
+// Larger exports still get full statistics, but only this many rows are drawn.
+const PDF_ROW_LIMIT = 2000;
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 40;
+const THUMB_WIDTH = 56;
+const THUMB_HEIGHT = 28;
+
+const STATUS_LABELS: Record<ListVerdict, string> = {
+  banned: "Banned",
+  watch: "Watchlist",
+  permit: "Permit",
+  expired: "Permit expired",
+  unlisted: "Not listed",
+};
+
+// x offset and width of each table column, in points from the left margin.
+const COLUMNS = [
+  { title: "Evidence", x: 0, width: 64 },
+  { title: "Plate", x: 68, width: 120 },
+  { title: "Seen", x: 192, width: 90 },
+  { title: "Zone", x: 286, width: 100 },
+  { title: "Status", x: 390, width: 70 },
+  { title: "Conf.", x: 464, width: 51 },
+];
+
+export type ScanReportOptions = {
+  /** Site or sites the report covers, printed in the header. */
+  siteName: string;
+  /** Human-readable description of the filters that produced `scans`. */
+  filterDescription: string;
+  zoneLabels: Map<string, string>;
+};
+
+function reportStats(scans: ScanResult[]) {
+  const points: ScanPoint[] = scans.map((scan) => ({
+    plateNumber: scan.plateNumber,
+    at: new Date(scan.timestamp),
+    zoneId: scan.zoneId,
+  }));
+  const visits = groupVisits(points);
+  const perPlate = new Map<string, number>();
+  visits.forEach((visit) => perPlate.set(visit.plateNumber, (perPlate.get(visit.plateNumber) ?? 0) + 1));
+  const dwell = averageDwellMinutes(visits);
+  const [peak] = peakHours(scansByHour(points), 1);
+  const count = (predicate: (scan: ScanResult) => boolean) => scans.filter(predicate).length;
+
+  return [
+    ["Scans", String(scans.length)],
+    ["Unique vehicles", String(uniquePlateCount(points))],
+    ["Repeat visitors", String([...perPlate.values()].filter((n) => n > 1).length)],
+    ["Avg. dwell", dwell === null ? "n/a" : `${Math.round(dwell)} min`],
+    ["Peak hour", peak === undefined ? "n/a" : formatHour(peak)],
+    ["Banned / watch", `${count((s) => s.verdict === "banned")} / ${count((s) => s.verdict === "watch")}`],
+    ["Permit expired", String(count((s) => s.verdict === "expired"))],
+    ["Possible clones", String(count((s) => Boolean(s.vehicleMismatches?.length)))],
+  ];
+}
+
+async function loadThumbnail(scan: ScanResult) {
+  if (!scan.hasEvidence) return null;
+  const evidence = await evidenceRepository.get(scan.id).catch(() => undefined);
+  return evidence ? new Uint8Array(await evidence.thumbnail.arrayBuffer()) : null;
+}
+
+/**
+ * Builds a printable PDF of the given scans entirely in the browser, so it
+ * works offline: a header naming the site and filters, summary statistics, and
+ * one row per scan with its locally stored plate crop.
+ */
+export async function buildScanReportPdf(scans: ScanResult[], options: ScanReportOptions): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text("Scan log report", PAGE_MARGIN, y + 14);
+  y += 30;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(80);
+  const headerLines = [
+    options.siteName,
+    `Generated ${format(new Date(), "MMM d, yyyy h:mm a")}`,
+    ...doc.splitTextToSize(`Filters: ${options.filterDescription}`, contentWidth),
+  ];
+  doc.text(headerLines, PAGE_MARGIN, y);
+  y += headerLines.length * 13 + 10;
+
+  const stats = reportStats(scans);
+  const cellWidth = contentWidth / 4;
+  stats.forEach(([label, value], i) => {
+    const x = PAGE_MARGIN + (i % 4) * cellWidth;
+    const top = y + Math.floor(i / 4) * 38;
+    doc.setDrawColor(220);
+    doc.roundedRect(x, top, cellWidth - 6, 32, 3, 3);
+    doc.setFontSize(8);
+    doc.setTextColor(110);
+    doc.text(label.toUpperCase(), x + 6, top + 11);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.setTextColor(20);
+    doc.text(value, x + 6, top + 26);
+    doc.setFont("helvetica", "normal");
+  });
+  y += Math.ceil(stats.length / 4) * 38 + 12;
+
+  const rows = scans.slice(0, PDF_ROW_LIMIT);
+  if (rows.length < scans.length) {
+    doc.setFontSize(9);
+    doc.setTextColor(110);
+    doc.text(`Showing the first ${rows.length} of ${scans.length} scans.`, PAGE_MARGIN, y);
+    y += 14;
+  }
+
+  const drawTableHeader = () => {
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.setTextColor(60);
+    COLUMNS.forEach((column) => doc.text(column.title, PAGE_MARGIN + column.x, y + 10));
+    doc.setDrawColor(180);
+    doc.line(PAGE_MARGIN, y + 15, pageWidth - PAGE_MARGIN, y + 15);
+    doc.setFont("helvetica", "normal");
+    y += 20;
+  };
+  drawTableHeader();
+
+  for (const scan of rows) {
+    if (y + ROW_HEIGHT > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+      drawTableHeader();
+    }
+
+    const thumbnail = await loadThumbnail(scan);
+    if (thumbnail) {
+      const { width, height } = doc.getImageProperties(thumbnail);
+      const scale = Math.min(THUMB_WIDTH / width, THUMB_HEIGHT / height);
+      doc.addImage(thumbnail, "JPEG", PAGE_MARGIN, y + 2, width * scale, height * scale);
+    }
+
+    const cell = (column: number, text: string, line = 0) => {
+      const { x, width } = COLUMNS[column];
+      const [fitted] = doc.splitTextToSize(text, width - 4);
+      doc.text(fitted ?? "", PAGE_MARGIN + x, y + 12 + line * 11);
+    };
+    doc.setFontSize(11);
+    doc.setTextColor(20);
+    doc.setFont("courier", "bold");
+    cell(1, scan.plateNumber);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(90);
+    const annotation = [scan.tags?.join(", "), scan.notes].filter(Boolean).join(" - ");
+    if (scan.originalPlateNumber) cell(1, `Read as ${scan.originalPlateNumber}`, 1);
+    if (annotation) cell(1, annotation, scan.originalPlateNumber ? 2 : 1);
+
+    doc.setFontSize(9);
+    doc.setTextColor(40);
+    cell(2, format(new Date(scan.timestamp), "MMM d, yyyy"));
+    cell(2, format(new Date(scan.timestamp), "h:mm:ss a"), 1);
+    cell(3, (scan.zoneId && options.zoneLabels.get(scan.zoneId)) || "-");
+    if (scan.operatorName) cell(3, scan.operatorName, 1);
+    cell(4, STATUS_LABELS[scan.verdict ?? "unlisted"]);
+    if (scan.vehicleMismatches?.length) cell(4, "Possible clone", 1);
+    cell(5, scan.confidence === undefined ? "-" : `${Math.round(scan.confidence * 100)}%`);
+
+    doc.setDrawColor(235);
+    doc.line(PAGE_MARGIN, y + ROW_HEIGHT - 4, pageWidth - PAGE_MARGIN, y + ROW_HEIGHT - 4);
+    y += ROW_HEIGHT;
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(130);
+    doc.text(`Page ${page} of ${pages}`, pageWidth - PAGE_MARGIN, pageHeight - 20, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
@@ -0,0 +1,483 @@
+import { openDatabase, promisifyRequest, transactionDone, OUTBOX_STORE, SCANS_STORE, TRASH_STORE } from "@/lib/db";
+import { plateMatchesQuery } from "@/lib/plate-matching";
+import {
+  type ListVerdict,
+  type ScanEdit,
+  type ScanEditableField,
+  type ScanResult,
+  type TrashedScan,
+} from "@/lib/types";
+
+const LEGACY_STORAGE_KEY = "plateseeker_history";
+
+export type ConfidenceBand = "high" | "medium" | "low";
+
+export type ScanSort = "newest" | "oldest" | "plate" | "confidence";
+
+export type ScanFilter = {
+  zoneId?: string;
+  /** Partial or fuzzy plate search, see `plateMatchesQuery`. */
+  query?: string;
+  /** Inclusive ISO timestamp bounds. */
+  from?: string;
+  to?: string;
+  operatorId?: string;
+  verdict?: ListVerdict;
+  confidence?: ConfidenceBand;
+};
+
+export type ScanQuery = ScanFilter & {
+  /** Defaults to newest first. "confidence" puts the least certain reads first. */
+  sort?: ScanSort;
+};
+
+export type ScanPageOptions = ScanQuery & {
+  offset?: number;
+  limit: number;
+};
+
+/**
+ * A manual correction. The list check and format fields are recomputed by the caller
+ * when the plate changes and are not part of the audit trail.
+ */
+export type ScanChanges = Partial<
+  Pick<ScanResult, ScanEditableField | "verdict" | "listEntryId" | "vehicleMismatches" | "invalidFormat">
+>;
+
+export type ScanEditor = {
+  id?: string;
+  name?: string;
+};
+
+/** A scan changed locally since the last push; the scan itself is gone if it was deleted. */
+export type OutboxEntry = {
+  scanId: string;
+  queuedAt: string;
+  /** Site the scan belongs to, kept so a deletion still syncs to the right collection. */
+  siteId?: string;
+  /** Set when the cloud refused the change; it is retried only once the scan changes again. */
+  rejected?: true;
+};
+
+/** A scan as last written by another device; `scan` is null for a deletion. */
+export type RemoteChange = {
+  id: string;
+  updatedAt: string;
+  scan: ScanResult | null;
+};
+
+export interface ScanRepository {
+  add(scans: ScanResult[]): Promise<void>;
+  /** Applies a manual edit and appends it to the scan's audit trail. Rejects if the scan is gone. */
+  update(id: string, changes: ScanChanges, editor?: ScanEditor): Promise<ScanResult>;
+  /** Moves a scan to the trash. */
+  delete(id: string): Promise<void>;
+  getPage(options: ScanPageOptions): Promise<ScanResult[]>;
+  count(filter?: ScanFilter): Promise<number>;
+  /** Everyone who has saved a scan on this device or synced to it. */
+  listOperators(): Promise<{ id: string; name: string }[]>;
+  findByPlate(plateNumber: string): Promise<ScanResult[]>;
+  /** Scans with `from <= timestamp <= to`, oldest first. Bounds are ISO strings. */
+  findBetween(from: string, to: string): Promise<ScanResult[]>;
+  /** Moves every scan to the trash and returns their ids, so the clear can be undone. */
+  clear(): Promise<string[]>;
+  /** Trashed scans, most recently deleted first. */
+  listTrash(): Promise<TrashedScan[]>;
+  /** Puts trashed scans back in the log. */
+  restore(ids: string[]): Promise<void>;
+  /** Permanently removes scans trashed before `before`, or all of them, and returns their ids. */
+  purgeTrash(before?: string): Promise<string[]>;
+  /** Called after every write. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+
+  // Used by the sync engine.
+  get(id: string): Promise<ScanResult | undefined>;
+  pendingChanges(): Promise<OutboxEntry[]>;
+  /** Drops the outbox entry unless the scan changed again after it was read. */
+  markSynced(entry: OutboxEntry): Promise<void>;
+  /** Flags the outbox entry as refused by the cloud, unless the scan changed again after it was read. */
+  markRejected(entry: OutboxEntry): Promise<void>;
+  /** Applies remote changes that are newer than the local copy (last write wins). */
+  applyRemote(changes: RemoteChange[]): Promise<void>;
+}
+
+const lastModified = (scan: ScanResult) => scan.updatedAt ?? scan.timestamp;
+
+const EDITABLE_FIELDS: ScanEditableField[] = ["plateNumber", "notes", "tags"];
+
+const auditValue = (value: ScanResult[ScanEditableField]) =>
+  (Array.isArray(value) ? value.join(", ") : value) || undefined;
+
+// One audit entry per editable field whose value actually changes.
+function auditChanges(scan: ScanResult, changes: ScanChanges, editor: ScanEditor, at: string): ScanEdit[] {
+  return EDITABLE_FIELDS.filter((field) => field in changes)
+    .map((field) => ({ field, from: auditValue(scan[field]), to: auditValue(changes[field]) }))
+    .filter(({ from, to }) => from !== to)
+    .map((change) => ({ at, operatorId: editor.id, operatorName: editor.name, ...change }));
+}
+
+export function confidenceBand(scan: ScanResult): ConfidenceBand | undefined {
+  if (scan.lowConfidence) return "low";
+  if (scan.confidence === undefined) return undefined;
+  if (scan.confidence < 0.6) return "low";
+  return scan.confidence < 0.9 ? "medium" : "high";
+}
+
+// Zone and date bounds can be served by the timestamp indexes; the rest needs a look at each record.
+const needsPredicate = (filter: ScanFilter) =>
+  Boolean(filter.query || filter.operatorId || filter.verdict || filter.confidence);
+
+function matchesQuery(scan: ScanResult, query: string) {
+  return (
+    plateMatchesQuery(scan.plateNumber, query) ||
+    (scan.rawPlateNumber !== undefined && plateMatchesQuery(scan.rawPlateNumber, query))
+  );
+}
+
+function matchesFilter(scan: ScanResult, filter: ScanFilter) {
+  if (filter.zoneId && scan.zoneId !== filter.zoneId) return false;
+  if (filter.from && scan.timestamp < filter.from) return false;
+  if (filter.to && scan.timestamp > filter.to) return false;
+  if (filter.query && !matchesQuery(scan, filter.query)) return false;
+  if (filter.operatorId && scan.operatorId !== filter.operatorId) return false;
+  if (filter.verdict && (scan.verdict ?? "unlisted") !== filter.verdict) return false;
+  if (filter.confidence && confidenceBand(scan) !== filter.confidence) return false;
+  return true;
+}
+
+// Picks the index and key range that yield the filtered scans in timestamp order.
+function timestampOrdered(store: IDBObjectStore, filter: ScanFilter) {
+  const from = filter.from ?? "";
+  const to = filter.to ?? "\uffff";
+  if (filter.zoneId) {
+    return {
+      index: store.index("zoneTimestamp"),
+      range: IDBKeyRange.bound([filter.zoneId, from], [filter.zoneId, to]),
+    };
+  }
+  return {
+    index: store.index("timestamp"),
+    range: filter.from || filter.to ? IDBKeyRange.bound(from, to) : null,
+  };
+}
+
+// Walks matching scans in index order, skipping `offset` matches and stopping after `limit`.
+function collect(
+  index: IDBIndex,
+  range: IDBKeyRange | null,
+  direction: IDBCursorDirection,
+  filter: ScanFilter,
+  offset: number,
+  limit: number
+): Promise<ScanResult[]> {
+  return new Promise((resolve, reject) => {
+    const page: ScanResult[] = [];
+    let skipped = 0;
+    const request = index.openCursor(range, direction);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || page.length >= limit) {
+        resolve(page);
+        return;
+      }
+      if (matchesFilter(cursor.value, filter)) {
+        if (skipped < offset) skipped++;
+        else page.push(cursor.value);
+      }
+      cursor.continue();
+    };
+  });
+}
+
+let migration: Promise<void> | null = null;
+
+// One-time import of the history ScannerLayout used to keep in localStorage.
+// The key is only removed once every record is safely in IndexedDB.
+async function migrateLegacyHistory(db: IDBDatabase) {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  let legacy: ScanResult[];
+  try {
+    legacy = JSON.parse(saved);
+  } catch (e) {
+    return;
+  }
+
+  const queuedAt = new Date().toISOString();
+  const tx = db.transaction([SCANS_STORE, OUTBOX_STORE], "readwrite");
+  const store = tx.objectStore(SCANS_STORE);
+  const outbox = tx.objectStore(OUTBOX_STORE);
+  legacy.forEach((scan) => {
+    store.put({ ...scan, updatedAt: scan.updatedAt ?? scan.timestamp });
+    outbox.put({ scanId: scan.id, queuedAt, siteId: scan.siteId });
+  });
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+async function getDatabase() {
+  const db = await openDatabase();
+  if (!migration) {
+    migration = migrateLegacyHistory(db);
+    migration.catch(() => {
+      migration = null;
+    });
+  }
+  await migration;
+  return db;
+}
+
+function createIndexedDbScanRepository(): ScanRepository {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    async add(scans) {
+      const db = await getDatabase();
+      const queuedAt = new Date().toISOString();
+      const tx = db.transaction([SCANS_STORE, OUTBOX_STORE], "readwrite");
+      const store = tx.objectStore(SCANS_STORE);
+      const outbox = tx.objectStore(OUTBOX_STORE);
+      scans.forEach((scan) => {
+        store.put({ ...scan, updatedAt: scan.updatedAt ?? queuedAt });
+        outbox.put({ scanId: scan.id, queuedAt, siteId: scan.siteId });
+      });
+      await transactionDone(tx);
+      notify();
+    },
+
+    async update(id, changes, editor = {}) {
+      const db = await getDatabase();
+      const tx = db.transaction([SCANS_STORE, OUTBOX_STORE], "readwrite");
+      const store = tx.objectStore(SCANS_STORE);
+      const scan: ScanResult | undefined = await promisifyRequest(store.get(id));
+      if (!scan) {
+        tx.abort();
+        throw new Error(`Scan ${id} no longer exists`);
+      }
+
+      const updatedAt = new Date().toISOString();
+      const edits = auditChanges(scan, changes, editor, updatedAt);
+      const plateChanged = edits.some((edit) => edit.field === "plateNumber");
+      const updated: ScanResult = {
+        ...scan,
+        ...changes,
+        ...(plateChanged && { originalPlateNumber: scan.originalPlateNumber ?? scan.plateNumber }),
+        edits: [...(scan.edits ?? []), ...edits],
+        updatedAt,
+      };
+      store.put(updated);
+      tx.objectStore(OUTBOX_STORE).put({ scanId: id, queuedAt: updatedAt, siteId: scan.siteId });
+      await transactionDone(tx);
+      notify();
+      return updated;
+    },
+
+    async delete(id) {
+      const db = await getDatabase();
+      const deletedAt = new Date().toISOString();
+      const tx = db.transaction([SCANS_STORE, OUTBOX_STORE, TRASH_STORE], "readwrite");
+      const store = tx.objectStore(SCANS_STORE);
+      const scan: ScanResult | undefined = await promisifyRequest(store.get(id));
+      if (scan) tx.objectStore(TRASH_STORE).put({ ...scan, deletedAt });
+      store.delete(id);
+      tx.objectStore(OUTBOX_STORE).put({ scanId: id, queuedAt: deletedAt, siteId: scan?.siteId });
+      await transactionDone(tx);
+      notify();
+    },
+
+    async getPage({ offset = 0, limit, sort = "newest", ...filter }) {
+      const db = await getDatabase();
+      const store = db.transaction(SCANS_STORE).objectStore(SCANS_STORE);
+      const { index, range } = timestampOrdered(store, filter);
+
+      if (sort === "plate") {
+        return collect(store.index("plateNumber"), null, "next", filter, offset, limit);
+      }
+      if (sort === "confidence") {
+        const all = await collect(index, range, "next", filter, 0, Infinity);
+        // Reads that missed quorum come first and reads without a confidence last.
+        const confidenceOf = (scan: ScanResult) => (scan.lowConfidence ? -1 : (scan.confidence ?? 2));
+        return all.sort((a, b) => confidenceOf(a) - confidenceOf(b)).slice(offset, offset + limit);
+      }
+      if (sort === "oldest" || needsPredicate(filter)) {
+        return collect(index, range, sort === "oldest" ? "next" : "prev", filter, offset, limit);
+      }
+
+      // Unfiltered newest-first pages jump straight to the offset.
+      return new Promise((resolve, reject) => {
+        const page: ScanResult[] = [];
+        let skipped = offset === 0;
+        const request = index.openCursor(range, "prev");
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || page.length >= limit) {
+            resolve(page);
+            return;
+          }
+          if (!skipped) {
+            skipped = true;
+            cursor.advance(offset);
+            return;
+          }
+          page.push(cursor.value);
+          cursor.continue();
+        };
+      });
+    },
+
+    async count(filter = {}) {
+      const db = await getDatabase();
+      const { index, range } = timestampOrdered(db.transaction(SCANS_STORE).objectStore(SCANS_STORE), filter);
+      if (!needsPredicate(filter)) return promisifyRequest(index.count(range ?? undefined));
+      const matches = await collect(index, range, "next", filter, 0, Infinity);
+      return matches.length;
+    },
+
+    async listOperators() {
+      const db = await getDatabase();
+      const scans: ScanResult[] = await promisifyRequest(db.transaction(SCANS_STORE).objectStore(SCANS_STORE).getAll());
+      const operators = new Map<string, string>();
+      scans.forEach((scan) => {
+        if (scan.operatorId) operators.set(scan.operatorId, scan.operatorName ?? scan.operatorId);
+      });
+      return [...operators].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async findByPlate(plateNumber) {
+      const db = await getDatabase();
+      const index = db.transaction(SCANS_STORE).objectStore(SCANS_STORE).index("plateNumber");
+      return promisifyRequest(index.getAll(plateNumber) as IDBRequest<ScanResult[]>);
+    },
+
+    async findBetween(from, to) {
+      const db = await getDatabase();
+      const index = db.transaction(SCANS_STORE).objectStore(SCANS_STORE).index("timestamp");
+      return promisifyRequest(index.getAll(IDBKeyRange.bound(from, to)) as IDBRequest<ScanResult[]>);
+    },
+
+    async clear() {
+      const db = await getDatabase();
+      const deletedAt = new Date().toISOString();
+      const tx = db.transaction([SCANS_STORE, OUTBOX_STORE, TRASH_STORE], "readwrite");
+      const store = tx.objectStore(SCANS_STORE);
+      const outbox = tx.objectStore(OUTBOX_STORE);
+      const trash = tx.objectStore(TRASH_STORE);
+      const scans: ScanResult[] = await promisifyRequest(store.getAll());
+      scans.forEach((scan) => {
+        trash.put({ ...scan, deletedAt });
+        outbox.put({ scanId: scan.id, queuedAt: deletedAt, siteId: scan.siteId });
+      });
+      store.clear();
+      await transactionDone(tx);
+      notify();
+      return scans.map((scan) => scan.id);
+    },
+
+    async listTrash() {
+      const db = await getDatabase();
+      const index = db.transaction(TRASH_STORE).objectStore(TRASH_STORE).index("deletedAt");
+      const trashed: TrashedScan[] = await promisifyRequest(index.getAll());
+      return trashed.reverse();
+    },
+
+    async restore(ids) {
+      const db = await getDatabase();
+      const updatedAt = new Date().toISOString();
+      const tx = db.transaction([SCANS_STORE, OUTBOX_STORE, TRASH_STORE], "readwrite");
+      const store = tx.objectStore(SCANS_STORE);
+      const outbox = tx.objectStore(OUTBOX_STORE);
+      const trash = tx.objectStore(TRASH_STORE);
+      for (const id of ids) {
+        const trashed: TrashedScan | undefined = await promisifyRequest(trash.get(id));
+        if (!trashed) continue;
+        const { deletedAt, ...scan } = trashed;
+        // A newer updatedAt lets the restored copy win over the tombstone already pushed.
+        store.put({ ...scan, updatedAt });
+        outbox.put({ scanId: id, queuedAt: updatedAt, siteId: scan.siteId });
+        trash.delete(id);
+      }
+      await transactionDone(tx);
+      notify();
+    },
+
+    async purgeTrash(before) {
+      const db = await getDatabase();
+      const tx = db.transaction(TRASH_STORE, "readwrite");
+      const trash = tx.objectStore(TRASH_STORE);
+      const range = before ? IDBKeyRange.upperBound(before, true) : undefined;
+      const ids = (await promisifyRequest(trash.index("deletedAt").getAllKeys(range))) as string[];
+      ids.forEach((id) => trash.delete(id));
+      await transactionDone(tx);
+      if (ids.length > 0) notify();
+      return ids;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async get(id) {
+      const db = await getDatabase();
+      return promisifyRequest(db.transaction(SCANS_STORE).objectStore(SCANS_STORE).get(id));
+    },
+
+    async pendingChanges() {
+      const db = await getDatabase();
+      return promisifyRequest(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+    },
+
+    async markSynced(entry) {
+      const db = await getDatabase();
+      const tx = db.transaction(OUTBOX_STORE, "readwrite");
+      const outbox = tx.objectStore(OUTBOX_STORE);
+      const current: OutboxEntry | undefined = await promisifyRequest(outbox.get(entry.scanId));
+      if (current?.queuedAt === entry.queuedAt) outbox.delete(entry.scanId);
+      await transactionDone(tx);
+    },
+
+    async markRejected(entry) {
+      const db = await getDatabase();
+      const tx = db.transaction(OUTBOX_STORE, "readwrite");
+      const outbox = tx.objectStore(OUTBOX_STORE);
+      const current: OutboxEntry | undefined = await promisifyRequest(outbox.get(entry.scanId));
+      if (current?.queuedAt === entry.queuedAt) outbox.put({ ...current, rejected: true });
+      await transactionDone(tx);
+    },
+
+    async applyRemote(changes) {
+      if (changes.length === 0) return;
+      const db = await getDatabase();
+      const tx = db.transaction([SCANS_STORE, OUTBOX_STORE], "readwrite");
+      const store = tx.objectStore(SCANS_STORE);
+      const outbox = tx.objectStore(OUTBOX_STORE);
+      let changed = false;
+
+      for (const change of changes) {
+        const [local, pending] = await Promise.all([
+          promisifyRequest(store.get(change.id)) as Promise<ScanResult | undefined>,
+          promisifyRequest(outbox.get(change.id)) as Promise<OutboxEntry | undefined>,
+        ]);
+        // A pending local deletion has no record left, so its queue time stands in.
+        const localModified = local ? lastModified(local) : pending?.queuedAt;
+        if (localModified && localModified >= change.updatedAt) continue;
+
+        if (change.scan) store.put(change.scan);
+        else if (local) store.delete(change.id);
+        if (pending) outbox.delete(change.id);
+        changed = changed || Boolean(change.scan || local);
+      }
+
+      await transactionDone(tx);
+      if (changed) notify();
+    },
+  };
+}
+
+export const scanRepository = createIndexedDbScanRepository();
@@ -0,0 +1,47 @@
+import { type OcrPolicy } from "@/lib/ocr-engines";
+
+export type ScanSettings = {
+  /** Auto-scan sampling interval. */
+  intervalMs: number;
+  /** Auto-scan won't re-log a plate seen within this window. */
+  cooldownMs: number;
+  /** Minimum frame difference (0-1) before auto-scan sends a new frame for OCR. */
+  changeThreshold: number;
+  /** Frames captured per read; more than one enables consensus voting. */
+  burstFrames: number;
+  /** Share of burst frames (0-1) that must agree for a read to be accepted. */
+  quorum: number;
+  /** Which OCR engines read captures, see `OCR_POLICIES`. */
+  ocrPolicy: OcrPolicy;
+  /** Plate format region used to normalize and validate reads. */
+  regionId: string;
+  /** Attach the device's position to saved scans. */
+  geotag: boolean;
+};
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+  intervalMs: 2000,
+  cooldownMs: 5 * 60 * 1000,
+  changeThreshold: 0.08,
+  burstFrames: 1,
+  quorum: 0.6,
+  ocrPolicy: "cloud-with-fallback",
+  regionId: "IN",
+  geotag: false,
+};
+
+const STORAGE_KEY = "plateseeker_settings";
+
+export function loadScanSettings(): ScanSettings {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      return { ...DEFAULT_SCAN_SETTINGS, ...JSON.parse(saved) };
+    } catch (e) {}
+  }
+  return DEFAULT_SCAN_SETTINGS;
+}
+
+export function saveScanSettings(settings: ScanSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,229 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { FirebaseError } from "firebase/app";
+import { getFirestoreDb, isFirebaseConfigured } from "@/lib/firebase";
+import { scanRepository, type OutboxEntry, type RemoteChange } from "@/lib/scan-repository";
+import { evidenceRepository } from "@/lib/evidence-repository";
+import { isRejectedUpload, uploadEvidence } from "@/lib/evidence-storage";
+import { siteRepository } from "@/lib/zone-repository";
+import { type ScanResult } from "@/lib/types";
+
+export type SyncState = "disabled" | "offline" | "syncing" | "synced" | "error";
+
+export type SyncStatus = {
+  state: SyncState;
+  /** Local changes waiting to be pushed. */
+  pending: number;
+  /** Local changes the cloud refused, e.g. under the Firestore rules; they stay on this device. */
+  rejected: number;
+  lastSyncedAt?: string;
+  error?: string;
+};
+
+/** Firestore site for scans and evidence not stamped with a site of their own. */
+export const CLOUD_SITE_ID = process.env.NEXT_PUBLIC_SITE_ID || "default";
+
+// Cloud documents carry a tombstone flag and a server-assigned time that the
+// pull cursor follows, so device clock skew can't hide another device's write.
+type CloudScan = Partial<ScanResult> & {
+  id: string;
+  updatedAt: string;
+  deleted: boolean;
+  syncedAt: Timestamp | null;
+};
+
+let status: SyncStatus = { state: isFirebaseConfigured ? "offline" : "disabled", pending: 0, rejected: 0 };
+const statusListeners = new Set<(status: SyncStatus) => void>();
+
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch };
+  statusListeners.forEach((listener) => listener(status));
+}
+
+export function getSyncStatus() {
+  return status;
+}
+
+export function subscribeToSyncStatus(listener: (status: SyncStatus) => void) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+const cursorKey = (siteId: string) => `plateseeker_sync_cursor_${siteId}`;
+
+function toRemoteChange(data: CloudScan): RemoteChange {
+  const { deleted, syncedAt, ...scan } = data;
+  return { id: data.id, updatedAt: data.updatedAt, scan: deleted ? null : (scan as ScanResult) };
+}
+
+/**
+ * Mirrors the local scan repository to `sites/{siteId}/scans` in Firestore,
+ * routing each scan by its own `siteId` and falling back to `fallbackSiteId`
+ * for scans without one. Local writes are queued in the repository's outbox
+ * and pushed whenever the device is online; edits are resolved last-write-wins
+ * on `updatedAt`. Every site known on this device is pulled from. Evidence
+ * photos follow to `sites/{siteId}/evidence` in Firebase Storage.
+ * Returns a function that stops syncing.
+ */
+export function startScanSync(fallbackSiteId: string): () => void {
+  if (!isFirebaseConfigured) return () => {};
+
+  const db = getFirestoreDb();
+  const scansOf = (siteId: string) => collection(db, "sites", siteId, "scans");
+  let stopped = false;
+  let flushing = false;
+  let flushAgain = false;
+
+  const refreshPending = async () => {
+    const entries = await scanRepository.pendingChanges();
+    const rejected = entries.filter((entry) => entry.rejected).length;
+    setStatus({ pending: entries.length - rejected, rejected });
+  };
+
+  const push = async (entry: OutboxEntry) => {
+    const local = await scanRepository.get(entry.scanId);
+    const updatedAt = local ? (local.updatedAt ?? local.timestamp) : entry.queuedAt;
+    const siteId = local?.siteId ?? entry.siteId ?? fallbackSiteId;
+    const ref = doc(scansOf(siteId), entry.scanId);
+    await runTransaction(db, async (tx) => {
+      const remote = await tx.get(ref);
+      // The remote copy is newer; the snapshot listener will pull it down instead.
+      if (remote.exists() && (remote.data() as CloudScan).updatedAt > updatedAt) return;
+      tx.set(ref, {
+        ...(local ?? { id: entry.scanId }),
+        updatedAt,
+        deleted: !local,
+        syncedAt: serverTimestamp(),
+      });
+    });
+  };
+
+  const flush = async () => {
+    if (stopped) return;
+    if (!navigator.onLine) {
+      setStatus({ state: "offline" });
+      return;
+    }
+    if (flushing) {
+      flushAgain = true;
+      return;
+    }
+
+    flushing = true;
+    setStatus({ state: "syncing", error: undefined });
+    try {
+      // One photo that fails to upload shouldn't hold back the ones after it.
+      let uploadError: unknown = null;
+      do {
+        flushAgain = false;
+        for (const entry of await scanRepository.pendingChanges()) {
+          if (stopped) return;
+          if (entry.rejected) continue;
+          try {
+            await push(entry);
+          } catch (e) {
+            // A refused change would be refused again and hold back every change queued after it.
+            if (!(e instanceof FirebaseError && e.code === "permission-denied")) throw e;
+            await scanRepository.markRejected(entry);
+            continue;
+          }
+          await scanRepository.markSynced(entry);
+        }
+        for (const evidence of await evidenceRepository.pendingUploads()) {
+          if (stopped) return;
+          try {
+            await uploadEvidence(evidence.siteId ?? fallbackSiteId, evidence);
+          } catch (e) {
+            if (!navigator.onLine) throw e;
+            // Refused uploads would be refused again, so they leave the queue; others retry on the next flush.
+            if (isRejectedUpload(e)) await evidenceRepository.markUploadRejected(evidence.scanId);
+            uploadError ??= e;
+            continue;
+          }
+          await evidenceRepository.markUploaded(evidence.scanId);
+        }
+      } while (flushAgain);
+      if (uploadError) throw uploadError;
+      setStatus({ state: "synced", lastSyncedAt: new Date().toISOString() });
+    } catch (e) {
+      setStatus(
+        navigator.onLine
+          ? { state: "error", error: e instanceof Error ? e.message : String(e) }
+          : { state: "offline" }
+      );
+    } finally {
+      flushing = false;
+      await refreshPending();
+    }
+  };
+
+  const watchSite = (siteId: string) => {
+    let cursor = Number(localStorage.getItem(cursorKey(siteId)) ?? 0);
+    return onSnapshot(
+      query(scansOf(siteId), where("syncedAt", ">", Timestamp.fromMillis(cursor))),
+      async (snapshot) => {
+        const docs = snapshot
+          .docChanges()
+          .filter((change) => change.type !== "removed" && !change.doc.metadata.hasPendingWrites)
+          .map((change) => change.doc.data() as CloudScan);
+        if (docs.length === 0) return;
+
+        await scanRepository.applyRemote(docs.map(toRemoteChange));
+        const latest = Math.max(...docs.map((d) => d.syncedAt?.toMillis() ?? 0));
+        if (latest > cursor) {
+          cursor = latest;
+          localStorage.setItem(cursorKey(siteId), String(cursor));
+        }
+      },
+      (error) => setStatus({ state: "error", error: error.message })
+    );
+  };
+
+  // One listener per site, kept in step as sites are added or removed.
+  const watched = new Map<string, () => void>();
+  const refreshSites = async () => {
+    const sites = await siteRepository.getAll();
+    if (stopped) return;
+    const siteIds = new Set([fallbackSiteId, ...sites.map((site) => site.id)]);
+    siteIds.forEach((siteId) => {
+      if (!watched.has(siteId)) watched.set(siteId, watchSite(siteId));
+    });
+    watched.forEach((unsubscribe, siteId) => {
+      if (siteIds.has(siteId)) return;
+      unsubscribe();
+      watched.delete(siteId);
+    });
+  };
+  const watchSites = () => {
+    refreshSites().catch((e) => setStatus({ state: "error", error: e instanceof Error ? e.message : String(e) }));
+  };
+
+  const goOffline = () => setStatus({ state: "offline" });
+  window.addEventListener("online", flush);
+  window.addEventListener("offline", goOffline);
+  const unsubscribeRepository = scanRepository.subscribe(flush);
+  const unsubscribeEvidence = evidenceRepository.subscribe(flush);
+  const unsubscribeSites = siteRepository.subscribe(watchSites);
+  watchSites();
+  flush();
+
+  return () => {
+    stopped = true;
+    watched.forEach((unsubscribe) => unsubscribe());
+    unsubscribeSites();
+    unsubscribeRepository();
+    unsubscribeEvidence();
+    window.removeEventListener("online", flush);
+    window.removeEventListener("offline", goOffline);
+  };
+}
@@ -0,0 +1,52 @@
+import { openDatabase, promisifyRequest, transactionDone } from "@/lib/db";
+
+/** Whole-store access for the small reference stores (lists, zones, violations). */
+export interface StoreRepository<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(records: T[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  /** Called after every write. Returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+}
+
+export function createIndexedDbStoreRepository<T extends { id: string }>(storeName: string): StoreRepository<T> {
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    async getAll() {
+      const db = await openDatabase();
+      return promisifyRequest(db.transaction(storeName).objectStore(storeName).getAll());
+    },
+
+    async get(id) {
+      const db = await openDatabase();
+      return promisifyRequest(db.transaction(storeName).objectStore(storeName).get(id));
+    },
+
+    async put(records) {
+      const db = await openDatabase();
+      const tx = db.transaction(storeName, "readwrite");
+      const store = tx.objectStore(storeName);
+      records.forEach((record) => store.put(record));
+      await transactionDone(tx);
+      notify();
+    },
+
+    async delete(id) {
+      const db = await openDatabase();
+      const tx = db.transaction(storeName, "readwrite");
+      tx.objectStore(storeName).delete(id);
+      await transactionDone(tx);
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { addDays, subDays } from "date-fns";
+import { scanRepository } from "@/lib/scan-repository";
+import { evidenceRepository } from "@/lib/evidence-repository";
+
+/** Days a deleted scan can still be restored. */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Permanently deletes scans trashed before `before`, or the whole trash, along
+ * with their evidence photos. Evidence is kept while a scan is only trashed so
+ * a restore brings it back intact.
+ */
+export async function emptyTrash(before?: Date) {
+  const ids = await scanRepository.purgeTrash(before?.toISOString());
+  await Promise.all(ids.map((id) => evidenceRepository.delete(id)));
+  return ids.length;
+}
+
+export function purgeExpiredTrash() {
+  return emptyTrash(subDays(new Date(), TRASH_RETENTION_DAYS));
+}
+
+/** When a scan deleted at `deletedAt` leaves the trash for good. */
+export function trashExpiry(deletedAt: string) {
+  return addDays(new Date(deletedAt), TRASH_RETENTION_DAYS);
+}
@@ -0,0 +1,161 @@
+import { type DetectedPlate, type VehicleAttributes } from "@/ai/flows/initiate-scan-with-prompt";
+import { type ConsensusFields } from "@/lib/plate-consensus";
+import { type FormatFields } from "@/lib/plate-formats";
+import { type ExpectedVehicle, type VehicleAttributeName } from "@/lib/vehicle-attributes";
+
+export type PlateListKind = "permit" | "watch" | "banned";
+
+export type PlateListEntry = {
+  id: string;
+  /** Compact form, see `compactPlate`. */
+  plateNumber: string;
+  list: PlateListKind;
+  /** Inclusive ISO date bounds; an entry without them never expires. */
+  validFrom?: string;
+  validUntil?: string;
+  notes?: string;
+  /** Description of the registered vehicle; a confident read that contradicts it flags a possible clone. */
+  expectedVehicle?: ExpectedVehicle;
+  createdAt: string;
+};
+
+/** Outcome of checking a plate against the lists, most serious first. */
+export type ListVerdict = "banned" | "watch" | "permit" | "expired" | "unlisted";
+
+export type ListMatch = {
+  verdict: ListVerdict;
+  entry?: PlateListEntry;
+  /** The entry only matched after treating OCR-confusable characters as equal. */
+  fuzzy: boolean;
+  /** Attributes of the seen vehicle that contradict the entry's expected vehicle. */
+  vehicleMismatches?: VehicleAttributeName[];
+};
+
+export type Site = {
+  id: string;
+  name: string;
+};
+
+export type Level = {
+  id: string;
+  siteId: string;
+  name: string;
+  /** Sort position within the site, lowest first. */
+  order: number;
+};
+
+/** Inclusive range of numbered bays, e.g. B1-B40. */
+export type BayRange = {
+  prefix?: string;
+  from: number;
+  to: number;
+};
+
+export type ParkingZone = {
+  id: string;
+  siteId: string;
+  levelId?: string;
+  name: string;
+  bays?: BayRange[];
+  /** Maximum stay; zones without one are never chalked. */
+  timeLimitMinutes?: number;
+  /** Extra minutes allowed past the limit before an overstay is raised. */
+  graceMinutes: number;
+};
+
+export type ViolationStatus = "open" | "resolved" | "dismissed";
+
+/** A plate seen in a timed zone for longer than its limit plus grace. */
+export type Violation = {
+  id: string;
+  plateNumber: string;
+  zoneId: string;
+  /** Earliest sighting of the plate in the zone on this visit, the "chalk mark". */
+  firstSeenAt: string;
+  /** The latest sighting that was still over the limit. */
+  detectedAt: string;
+  scanId: string;
+  /** Minutes beyond the limit plus grace period. */
+  overstayMinutes: number;
+  status: ViolationStatus;
+};
+
+/** A plate read from a single frame, or the consensus of a burst. */
+export type PlateRead = DetectedPlate &
+  Partial<ConsensusFields> &
+  Partial<FormatFields> & {
+    match?: ListMatch;
+    /** The full-resolution frame the plate was read from, kept for evidence. */
+    photoDataUri?: string;
+    /** Id of the OCR engine that produced the read, see `registerOcrEngine`. */
+    engine?: string;
+  };
+
+/** A device position as reported by the Geolocation API. */
+export type GeoFix = {
+  latitude: number;
+  longitude: number;
+  /** Radius of uncertainty in metres. */
+  accuracy: number;
+};
+
+/** Fields an operator may correct or annotate after a scan is saved. */
+export type ScanEditableField = "plateNumber" | "notes" | "tags";
+
+/** One field changed by a manual edit. Tags are recorded comma-separated. */
+export type ScanEdit = {
+  at: string;
+  operatorId?: string;
+  operatorName?: string;
+  field: ScanEditableField;
+  from?: string;
+  to?: string;
+};
+
+export type ScanResult = {
+  id: string;
+  plateNumber: string;
+  timestamp: string;
+  /** Last local or remote modification, used for last-write-wins sync. */
+  updatedAt?: string;
+  confidence?: number;
+  /** Id of the OCR engine that read the plate; unset for imported scans. */
+  ocrEngine?: string;
+  /** Set when a burst read was saved without reaching quorum. */
+  lowConfidence?: boolean;
+  /** The plate text as OCR returned it, before normalization. */
+  rawPlateNumber?: string;
+  /** Set when the plate matched none of the region's formats. */
+  invalidFormat?: boolean;
+  /** Firebase Auth uid of the operator who saved the scan. */
+  operatorId?: string;
+  operatorName?: string;
+  /** List check at scan time. */
+  verdict?: ListVerdict;
+  /** Id of the list entry that produced the verdict. */
+  listEntryId?: string;
+  /** Where the scan was taken, copied from the operator's current zone at save time. */
+  siteId?: string;
+  levelId?: string;
+  zoneId?: string;
+  /** Device position at save time, when geotagging is on and a fix was available. */
+  location?: GeoFix;
+  /** Name of the uploaded photo the scan was read from; unset for live captures. */
+  sourceFileName?: string;
+  /** Set when the captured frame and plate crop were stored as evidence. */
+  hasEvidence?: boolean;
+  vehicle?: VehicleAttributes;
+  /** Attributes that contradicted the matched list entry, flagging a possible cloned plate. */
+  vehicleMismatches?: VehicleAttributeName[];
+  /** The plate as first saved from OCR, set once the plate has been corrected by hand. */
+  originalPlateNumber?: string;
+  notes?: string;
+  tags?: string[];
+  /** Manual edits, oldest first. */
+  edits?: ScanEdit[];
+};
+
+/** A scan in the trash; restoring it puts it back in the log unchanged. */
+export type TrashedScan = ScanResult & {
+  deletedAt: string;
+};
@@ -0,0 +1,81 @@
+import { type VehicleAttributes } from "@/ai/flows/initiate-scan-with-prompt";
+
+export type VehicleAttributeName = keyof VehicleAttributes;
+
+/** What a hotlist entry says the registered vehicle looks like. */
+export type ExpectedVehicle = Partial<Record<VehicleAttributeName, string>>;
+
+export const VEHICLE_ATTRIBUTE_NAMES: VehicleAttributeName[] = ["colour", "bodyType", "make", "model"];
+
+export const VEHICLE_ATTRIBUTE_LABELS: Record<VehicleAttributeName, string> = {
+  colour: "Colour",
+  bodyType: "Body type",
+  make: "Make",
+  model: "Model",
+};
+
+export const BODY_TYPES = [
+  "hatchback",
+  "sedan",
+  "suv",
+  "mpv",
+  "pickup",
+  "van",
+  "truck",
+  "bus",
+  "motorcycle",
+  "auto-rickshaw",
+  "other",
+];
+
+// Only attributes read at least this confidently count against the expected vehicle.
+const MISMATCH_MIN_CONFIDENCE = 0.7;
+
+const SYNONYMS: Record<string, string> = {
+  gray: "grey",
+  maruti: "marutisuzuki",
+  vw: "volkswagen",
+  chevy: "chevrolet",
+  mercedes: "mercedesbenz",
+};
+
+function normalizeValue(value: string) {
+  const compact = value.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return SYNONYMS[compact] ?? compact;
+}
+
+/**
+ * Whether an observed value is consistent with the expected one. Either may be
+ * more specific than the other: "dark grey" fits "grey", "Swift" fits "Swift Dzire".
+ */
+function isConsistent(expected: string, observed: string) {
+  const a = normalizeValue(expected);
+  const b = normalizeValue(observed);
+  return a.includes(b) || b.includes(a);
+}
+
+/**
+ * Attributes where a confident read contradicts the expected vehicle. Any
+ * mismatch on a listed plate suggests the plate may be cloned.
+ */
+export function findVehicleMismatches(expected: ExpectedVehicle, observed: VehicleAttributes): VehicleAttributeName[] {
+  return VEHICLE_ATTRIBUTE_NAMES.filter((name) => {
+    const want = expected[name]?.trim();
+    const seen = observed[name];
+    return want && seen && seen.confidence >= MISMATCH_MIN_CONFIDENCE && !isConsistent(want, seen.value);
+  });
+}
+
+/** e.g. "White Maruti Suzuki Swift (hatchback)". */
+export function describeVehicle(vehicle: VehicleAttributes | ExpectedVehicle) {
+  const valueOf = (name: VehicleAttributeName) => {
+    const attribute = vehicle[name];
+    return typeof attribute === "string" ? attribute : attribute?.value;
+  };
+  const colour = valueOf("colour");
+  const name = [colour && colour[0].toUpperCase() + colour.slice(1), valueOf("make"), valueOf("model")]
+    .filter(Boolean)
+    .join(" ");
+  const bodyType = valueOf("bodyType");
+  return [name, bodyType && `(${bodyType})`].filter(Boolean).join(" ");
+}
@@ -0,0 +1,33 @@
+import { LEVELS_STORE, SITES_STORE, VIOLATIONS_STORE, ZONES_STORE } from "@/lib/db";
+import { createIndexedDbStoreRepository } from "@/lib/store-repository";
+import { type BayRange, type Level, type ParkingZone, type Site, type Violation } from "@/lib/types";
+
+export const siteRepository = createIndexedDbStoreRepository<Site>(SITES_STORE);
+export const levelRepository = createIndexedDbStoreRepository<Level>(LEVELS_STORE);
+export const zoneRepository = createIndexedDbStoreRepository<ParkingZone>(ZONES_STORE);
+export const violationRepository = createIndexedDbStoreRepository<Violation>(VIOLATIONS_STORE);
+
+/** Parses "1-40, B1-B20" into bay ranges. Returns null if any part is malformed. */
+export function parseBayRanges(text: string): BayRange[] | null {
+  const parts = text.split(",").map((part) => part.trim()).filter(Boolean);
+  const ranges: BayRange[] = [];
+  for (const part of parts) {
+    const match = /^([A-Z]*)(\d+)\s*-\s*\1?(\d+)$/i.exec(part) ?? /^([A-Z]*)(\d+)()$/i.exec(part);
+    if (!match) return null;
+    const from = Number(match[2]);
+    const to = match[3] ? Number(match[3]) : from;
+    if (to < from) return null;
+    ranges.push({ prefix: match[1].toUpperCase() || undefined, from, to });
+  }
+  return ranges;
+}
+
+export function countBays(ranges: BayRange[]) {
+  return ranges.reduce((sum, { from, to }) => sum + to - from + 1, 0);
+}
+
+export function formatBayRanges(ranges: BayRange[]) {
+  return ranges
+    .map(({ prefix = "", from, to }) => (from === to ? `${prefix}${from}` : `${prefix}${from}-${prefix}${to}`))
+    .join(", ");
+}